@@ -0,0 +1,77 @@
+// Offline layer for the player's signage mode (see src/signage.ts). Media the page has cached is
+// served from the cache, range requests included, so videos play and seek without a network.
+// Everything else goes to the network first and falls back to the last good copy, so the page
+// itself and its playlists still load after a restart while offline.
+
+// Must match the names in src/signage.ts
+const MEDIA_CACHE = 'mediabunny-signage-media'
+const APP_CACHE = 'mediabunny-signage-app'
+
+self.addEventListener('install', () => self.skipWaiting())
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()))
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET' || !request.url.startsWith('http')) return
+  event.respondWith(respond(event))
+})
+
+async function respond(event) {
+  const { request } = event
+  const media = await caches.open(MEDIA_CACHE)
+  const cached = await media.match(request.url)
+  if (cached) return serveRange(request, cached)
+  return networkFirst(event)
+}
+
+async function networkFirst(event) {
+  const { request } = event
+  const app = await caches.open(APP_CACHE)
+  try {
+    const response = await fetch(request)
+    // Keeps the page's own files, and playlists the page asked to keep
+    const keep = response.status === 200 && !request.headers.has('Range') &&
+      (new URL(request.url).origin === self.location.origin || await app.match(request.url))
+    if (keep) {
+      event.waitUntil(app.put(request.url, response.clone()))
+    }
+    return response
+  } catch (error) {
+    const cached = await app.match(request.url)
+    if (cached) return cached
+    throw error
+  }
+}
+
+// Media elements and mediabunny read files in ranges; the cache holds whole files
+async function serveRange(request, response) {
+  const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('Range') ?? '')
+  if (!range || (range[1] === '' && range[2] === '')) return response
+
+  const body = await response.blob()
+  const size = body.size
+  let start
+  let end
+  if (range[1] === '') {
+    // bytes=-N asks for the last N bytes
+    start = Math.max(0, size - Number(range[2]))
+    end = size - 1
+  } else {
+    start = Number(range[1])
+    end = range[2] === '' ? size - 1 : Math.min(Number(range[2]), size - 1)
+  }
+
+  if (start >= size || start > end) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } })
+  }
+  return new Response(body.slice(start, end + 1), {
+    status: 206,
+    statusText: 'Partial Content',
+    headers: {
+      'Content-Type': response.headers.get('Content-Type') ?? 'application/octet-stream',
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+      'Content-Length': String(end - start + 1),
+      'Accept-Ranges': 'bytes'
+    }
+  })
+}
@@ -0,0 +1,505 @@
+import { ALL_FORMATS, BufferSource, Input } from 'mediabunny'
+import { delay } from './load-errors.ts'
+import { loadStreamManifest, updateRendition } from './stream-manifest.ts'
+import type { ByteRange, StreamManifest, StreamRendition, StreamSegment } from './stream-manifest.ts'
+
+// 'auto' adapts to the measured throughput and the player size; an index into the renditions locks one
+export type StreamQuality = number | 'auto'
+
+// One SourceBuffer and the rendition feeding it
+type Pipeline = {
+  buffer: SourceBuffer
+  rendition: StreamRendition // Where the next segments come from
+  initialized: StreamRendition | null // Whose init segment the buffer got last
+  type: string // MIME type the buffer expects
+  nextSequence: number | null // Segment to fetch next; null looks it up from the playhead
+  generation: number // Bumped by seeks, so work started before one doesn't move nextSequence
+  busy: boolean
+  ended: boolean // Has the last segment of a finished stream
+  flush: boolean // Drop what's buffered ahead, so a quality picked by hand shows soon
+  abort: AbortController // Of the download in flight
+}
+
+// Seconds buffered ahead of the playhead, and kept behind it
+const BUFFER_AHEAD = 30
+const BUFFER_BEHIND = 30
+// Seconds buffered before adaptation may move up, so one quick download can't cause a stall
+const UPSWITCH_BUFFER = 8
+// Share of the estimated throughput a rendition may use
+const BANDWIDTH_SAFETY = 0.8
+// Throughput assumed before the first download has been measured, in bits per second
+const DEFAULT_BANDWIDTH = 1_000_000
+// Downloads smaller than this say more about latency than throughput
+const MIN_SAMPLE_BYTES = 16 * 1024
+// Live playback starts this many segments behind the newest
+const LIVE_EDGE_SEGMENTS = 3
+// Seconds past the playhead kept when flushing, so playback carries on meanwhile
+const FLUSH_MARGIN = 1
+const SEGMENT_RETRIES = 3
+const PUMP_INTERVAL = 250
+
+// Plays an HLS or DASH stream through Media Source Extensions: downloads segments ahead of the
+// playhead, picking each one's rendition from the measured throughput and the size of the player.
+// The video element behaves as for a file, so ended, seeking and timeupdate work as usual.
+export class AdaptiveStream {
+  onQualityChange: ((rendition: StreamRendition) => void) | null = null // Segments now come from another rendition
+  onError: ((error: Error) => void) | null = null // Playback cannot continue
+
+  private video: HTMLVideoElement
+  private getViewportHeight: () => number // Device pixels the video is shown at
+  private manifest: StreamManifest | null = null
+  private playable: StreamRendition[] = [] // Renditions this browser can decode
+  private mediaSource: MediaSource | null = null
+  private objectUrl: string | null = null
+  private pipelines: Pipeline[] = [] // The adaptive renditions first, then any separate audio
+  private throughput = new ThroughputEstimator()
+  private quality: StreamQuality = 'auto'
+  private refreshedAt = new Map<object, number>() // When live playlists (or a DASH manifest) were last read
+  private timer: number | null = null
+  private abort = new AbortController()
+  private started = false // Playback has been moved onto the first buffered segment
+  private destroyed = false
+
+  static get isSupported() {
+    return typeof MediaSource !== 'undefined'
+  }
+
+  constructor(video: HTMLVideoElement, getViewportHeight: () => number) {
+    this.video = video
+    this.getViewportHeight = getViewportHeight
+  }
+
+  get renditions(): readonly StreamRendition[] {
+    return this.playable
+  }
+
+  // The rendition segments are being downloaded from
+  get currentRendition(): StreamRendition | null {
+    return this.pipelines[0]?.rendition ?? null
+  }
+
+  get selectedQuality() {
+    return this.quality
+  }
+
+  get isLive() {
+    return this.manifest?.live ?? false
+  }
+
+  // Reads the manifest and attaches the stream to the video element, which loads its metadata
+  // once the first segment is in
+  async load(url: string) {
+    const { signal } = this.abort
+    const manifest = this.manifest = await loadStreamManifest(url, signal)
+    this.playable = manifest.renditions.filter(canPlayRendition)
+    if (this.playable.length === 0) {
+      const codecs = manifest.renditions.map(rendition => rendition.codecs ?? rendition.mimeType).join(', ')
+      throw new Error(`This browser cannot play any rendition of ${url} (${codecs})`)
+    }
+
+    const mediaSource = this.mediaSource = new MediaSource()
+    this.objectUrl = URL.createObjectURL(mediaSource)
+    const opened = new Promise(resolve => mediaSource.addEventListener('sourceopen', resolve, { once: true }))
+    this.video.src = this.objectUrl
+    await opened
+    if (this.destroyed) return
+
+    const first = this.chooseRendition(0)
+    await this.addPipeline(first)
+    if (manifest.audio) {
+      await this.addPipeline(manifest.audio)
+    }
+    if (this.destroyed) return
+    mediaSource.duration = manifest.duration
+
+    this.video.addEventListener('seeking', () => this.handleSeek(), { signal })
+    this.timer = window.setInterval(() => this.pump(), PUMP_INTERVAL)
+    this.pump()
+    this.onQualityChange?.(first)
+  }
+
+  setQuality(quality: StreamQuality) {
+    const pipeline = this.pipelines[0]
+    const rendition = quality === 'auto' ? this.chooseRendition(0) : this.playable[quality]
+    if (!rendition) return
+
+    this.quality = quality
+    if (!pipeline || rendition === pipeline.rendition) return
+    this.switchRendition(pipeline, rendition)
+    pipeline.flush = quality !== 'auto'
+    this.pump()
+  }
+
+  destroy() {
+    if (this.destroyed) return
+    this.destroyed = true
+    if (this.timer !== null) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.abort.abort()
+    this.pipelines.forEach(pipeline => pipeline.abort.abort())
+    this.pipelines = []
+    if (this.objectUrl) {
+      if (this.video.src === this.objectUrl) {
+        this.video.removeAttribute('src')
+        this.video.load()
+      }
+      URL.revokeObjectURL(this.objectUrl)
+      this.objectUrl = null
+    }
+    this.mediaSource = null
+  }
+
+  private async addPipeline(rendition: StreamRendition) {
+    if (!rendition.loaded) {
+      await this.refresh(rendition)
+    }
+    if (!rendition.codecs && rendition.init) {
+      // Some HLS playlists leave the codecs out; the init segment has them
+      rendition.codecs = await detectCodecs(await this.download(rendition.init.url, rendition.init.range, this.abort.signal))
+    }
+    if (this.destroyed || !this.mediaSource) return
+
+    const type = getMimeType(rendition)
+    this.pipelines.push({
+      buffer: this.mediaSource.addSourceBuffer(type),
+      rendition,
+      initialized: null,
+      type,
+      nextSequence: null,
+      generation: 0,
+      busy: false,
+      ended: false,
+      flush: false,
+      abort: new AbortController()
+    })
+  }
+
+  private pump() {
+    const mediaSource = this.mediaSource
+    if (!mediaSource || this.destroyed) return
+
+    for (const pipeline of this.pipelines) {
+      if (pipeline.busy) continue
+      pipeline.busy = true
+      this.fill(pipeline)
+        .catch(error => this.fail(error))
+        .finally(() => { pipeline.busy = false })
+    }
+
+    // Every buffer has the end of a finished stream: let the element reach 'ended'
+    const finished = this.pipelines.every(pipeline => pipeline.ended && !pipeline.busy && !pipeline.buffer.updating)
+    if (finished && this.pipelines.length > 0 && mediaSource.readyState === 'open') {
+      mediaSource.endOfStream()
+    }
+  }
+
+  // Downloads and appends the next segment a pipeline needs, if any
+  private async fill(pipeline: Pipeline) {
+    const { buffer, generation } = pipeline
+    const time = this.video.currentTime
+
+    if (pipeline.flush) {
+      pipeline.flush = false
+      pipeline.nextSequence = null
+      pipeline.ended = false
+      await this.remove(buffer, time + FLUSH_MARGIN, Infinity)
+    }
+    if (pipeline.ended) return
+
+    const ahead = getBufferedEnd(buffer.buffered, time) - time
+    if (ahead >= BUFFER_AHEAD) return
+
+    if (pipeline === this.pipelines[0] && this.quality === 'auto') {
+      const choice = this.chooseRendition(ahead)
+      if (choice !== pipeline.rendition) {
+        this.switchRendition(pipeline, choice)
+      }
+    }
+
+    const rendition = pipeline.rendition
+    if (this.isStale(rendition)) {
+      await this.refresh(rendition)
+    }
+
+    const segment = this.findNextSegment(pipeline, time)
+    if (!segment) {
+      // A live stream is waiting for its playlist to grow; anything else has reached its end
+      pipeline.ended = !this.manifest!.live
+      return
+    }
+
+    if (pipeline.initialized !== rendition) {
+      const type = getMimeType(rendition)
+      if (type !== pipeline.type) {
+        buffer.changeType(type)
+        pipeline.type = type
+      }
+      if (rendition.init) {
+        await this.append(buffer, await this.download(rendition.init.url, rendition.init.range, pipeline.abort.signal))
+      }
+      pipeline.initialized = rendition
+    }
+
+    const data = await this.download(segment.url, segment.range, pipeline.abort.signal, true)
+    if (this.destroyed || generation !== pipeline.generation) return
+    await this.evict(buffer, this.video.currentTime)
+    await this.append(buffer, data)
+    if (generation !== pipeline.generation) return
+    pipeline.nextSequence = segment.sequence + 1
+    this.startAtBuffered()
+  }
+
+  private findNextSegment(pipeline: Pipeline, time: number): StreamSegment | null {
+    const { segments } = pipeline.rendition
+    if (segments.length === 0) return null
+
+    if (pipeline.nextSequence !== null) {
+      const next = segments.find(segment => segment.sequence === pipeline.nextSequence)
+      // A live stream that moved on past the next segment carries on from the oldest one left
+      if (next || segments[0].sequence < pipeline.nextSequence) return next ?? null
+      return this.manifest!.live ? segments[0] : null
+    }
+    if (this.manifest!.live && !this.started) {
+      return segments[Math.max(0, segments.length - LIVE_EDGE_SEGMENTS)]
+    }
+
+    // Carry on from the end of whatever is buffered around the playhead
+    const from = getBufferedEnd(pipeline.buffer.buffered, time)
+    return segments.find(segment => segment.start + segment.duration > from + 0.01) ?? null
+  }
+
+  // The fastest rendition the throughput allows, up to the first one that fills the player
+  private chooseRendition(bufferedAhead: number): StreamRendition {
+    const budget = this.throughput.estimate * BANDWIDTH_SAFETY
+    const height = this.getViewportHeight()
+    const fits = this.playable.findIndex(rendition => (rendition.height ?? 0) >= height)
+    const cap = fits === -1 ? this.playable.length - 1 : fits
+
+    let choice = 0
+    for (let index = 1; index <= cap; index++) {
+      if (this.playable[index].bandwidth <= budget) choice = index
+    }
+
+    const current = this.pipelines[0]?.rendition
+    if (current && choice > this.playable.indexOf(current) && bufferedAhead < UPSWITCH_BUFFER) {
+      return current
+    }
+    return this.playable[choice]
+  }
+
+  private switchRendition(pipeline: Pipeline, rendition: StreamRendition) {
+    pipeline.rendition = rendition
+    this.onQualityChange?.(rendition)
+  }
+
+  private isStale(rendition: StreamRendition) {
+    if (!rendition.loaded) return true
+    if (!this.manifest!.live) return false
+    const refreshed = this.refreshedAt.get(this.getRefreshKey(rendition)) ?? 0
+    return performance.now() - refreshed > this.manifest!.refreshInterval * 1000
+  }
+
+  // Re-reads a rendition's segment list. Once it has one, a failed refresh keeps the old list and
+  // is tried again on the next pass.
+  private async refresh(rendition: StreamRendition) {
+    try {
+      await updateRendition(this.manifest!, rendition, this.abort.signal)
+    } catch (error) {
+      if (!rendition.loaded || this.abort.signal.aborted) throw error
+      console.warn('Could not refresh the live stream playlist:', error)
+    }
+    this.refreshedAt.set(this.getRefreshKey(rendition), performance.now())
+  }
+
+  // HLS has a playlist per rendition; DASH one manifest for all of them
+  private getRefreshKey(rendition: StreamRendition): object {
+    return this.manifest!.protocol === 'hls' ? rendition : this.manifest!
+  }
+
+  private handleSeek() {
+    const time = this.video.currentTime
+    for (const pipeline of this.pipelines) {
+      if (isBuffered(pipeline.buffer.buffered, time)) continue
+      // Whatever was on its way is for the wrong place now
+      pipeline.generation++
+      pipeline.abort.abort()
+      pipeline.abort = new AbortController()
+      pipeline.nextSequence = null
+      pipeline.ended = false
+    }
+    this.pump()
+  }
+
+  // The first segments may not start at zero (and live ones never do): move the playhead onto them
+  private startAtBuffered() {
+    const { buffered } = this.video
+    if (this.started || buffered.length === 0) return
+    this.started = true
+    if (this.video.currentTime < buffered.start(0)) {
+      this.video.currentTime = buffered.start(0)
+    }
+  }
+
+  private fail(error: unknown) {
+    if (this.destroyed || (error instanceof DOMException && error.name === 'AbortError')) return
+    console.error('Stream playback failed:', error)
+    if (this.timer !== null) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.onError?.(error instanceof Error ? error : new Error(String(error)))
+  }
+
+  private async download(url: string, range: ByteRange | undefined, signal: AbortSignal, measure = false): Promise<ArrayBuffer> {
+    for (let attempt = 1; ; attempt++) {
+      const started = performance.now()
+      try {
+        const response = await fetch(url, { signal, headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined })
+        if (!response.ok) {
+          throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`)
+        }
+        const data = await response.arrayBuffer()
+        if (measure) {
+          this.throughput.add(data.byteLength, (performance.now() - started) / 1000)
+        }
+        return data
+      } catch (error) {
+        if (signal.aborted || attempt > SEGMENT_RETRIES) throw error
+        console.warn(`Segment download failed (attempt ${attempt} of ${SEGMENT_RETRIES + 1}):`, error)
+        await delay(attempt)
+      }
+    }
+  }
+
+  // A full buffer is made room in by dropping everything behind the playhead, then tried once more
+  private async append(buffer: SourceBuffer, data: ArrayBuffer) {
+    try {
+      await whenUpdated(buffer, () => buffer.appendBuffer(data))
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) throw error
+      await this.remove(buffer, 0, this.video.currentTime - FLUSH_MARGIN)
+      await whenUpdated(buffer, () => buffer.appendBuffer(data))
+    }
+  }
+
+  private async evict(buffer: SourceBuffer, time: number) {
+    const { buffered } = buffer
+    if (buffered.length > 0 && buffered.start(0) < time - BUFFER_BEHIND) {
+      await this.remove(buffer, buffered.start(0), time - BUFFER_BEHIND)
+    }
+  }
+
+  private async remove(buffer: SourceBuffer, start: number, end: number) {
+    const duration = this.mediaSource?.duration ?? 0
+    start = Math.max(0, start)
+    if (end <= start || !(start < duration)) return
+    await whenUpdated(buffer, () => buffer.remove(start, end))
+  }
+}
+
+export function canPlayRendition(rendition: StreamRendition) {
+  return !rendition.codecs || (AdaptiveStream.isSupported && MediaSource.isTypeSupported(getMimeType(rendition)))
+}
+
+// e.g. '720p · 2.5 Mbps'
+export function describeRendition(rendition: StreamRendition) {
+  const size = rendition.height ? `${rendition.height}p` : rendition.kind === 'audio' ? 'Audio' : 'Video'
+  if (!rendition.bandwidth) return size
+  const rate = rendition.bandwidth >= 1e6 ? `${(rendition.bandwidth / 1e6).toFixed(1)} Mbps` : `${Math.round(rendition.bandwidth / 1000)} kbps`
+  return `${size} · ${rate}`
+}
+
+// Exponentially weighted averages of the download rate, weighted by download time. The fast one
+// reacts to drops straight away, the slow one keeps single quick downloads from raising hopes.
+class ThroughputEstimator {
+  private fast = new MovingAverage(2)
+  private slow = new MovingAverage(5)
+
+  get estimate() {
+    return this.fast.value === null || this.slow.value === null ? DEFAULT_BANDWIDTH : Math.min(this.fast.value, this.slow.value)
+  }
+
+  add(bytes: number, seconds: number) {
+    if (bytes < MIN_SAMPLE_BYTES || seconds <= 0) return
+    const bitsPerSecond = bytes * 8 / seconds
+    this.fast.add(seconds, bitsPerSecond)
+    this.slow.add(seconds, bitsPerSecond)
+  }
+}
+
+class MovingAverage {
+  private alpha: number
+  private average = 0
+  private totalWeight = 0
+
+  // `halfLife`: weight after which a sample counts half as much
+  constructor(halfLife: number) {
+    this.alpha = Math.exp(Math.log(0.5) / halfLife)
+  }
+
+  // Corrected for starting at zero
+  get value(): number | null {
+    return this.totalWeight > 0 ? this.average / (1 - this.alpha ** this.totalWeight) : null
+  }
+
+  add(weight: number, value: number) {
+    const alpha = this.alpha ** weight
+    this.average = value * (1 - alpha) + alpha * this.average
+    this.totalWeight += weight
+  }
+}
+
+function getMimeType(rendition: StreamRendition) {
+  return rendition.codecs ? `${rendition.mimeType}; codecs="${rendition.codecs}"` : rendition.mimeType
+}
+
+async function detectCodecs(init: ArrayBuffer): Promise<string | undefined> {
+  const input = new Input({ source: new BufferSource(init), formats: ALL_FORMATS })
+  const codecs = await Promise.all((await input.getTracks()).map(track => track.getCodecParameterString()))
+  return codecs.filter(codec => codec !== null).join(',') || undefined
+}
+
+// Runs a SourceBuffer operation and waits for it to finish
+function whenUpdated(buffer: SourceBuffer, operation: () => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const done = () => {
+      buffer.removeEventListener('updateend', done)
+      buffer.removeEventListener('error', failed)
+      resolve()
+    }
+    const failed = () => {
+      buffer.removeEventListener('updateend', done)
+      buffer.removeEventListener('error', failed)
+      reject(new Error('The browser could not use a stream segment'))
+    }
+    buffer.addEventListener('updateend', done)
+    buffer.addEventListener('error', failed)
+    try {
+      operation()
+    } catch (error) {
+      buffer.removeEventListener('updateend', done)
+      buffer.removeEventListener('error', failed)
+      reject(error)
+    }
+  })
+}
+
+function isBuffered(buffered: TimeRanges, time: number) {
+  for (let index = 0; index < buffered.length; index++) {
+    if (time >= buffered.start(index) && time < buffered.end(index)) return true
+  }
+  return false
+}
+
+// End of the buffered range around `time` (allowing for small gaps), or `time` itself
+function getBufferedEnd(buffered: TimeRanges, time: number) {
+  let end = time
+  for (let index = 0; index < buffered.length; index++) {
+    if (buffered.start(index) <= end + 0.1 && buffered.end(index) > end) {
+      end = buffered.end(index)
+    }
+  }
+  return end
+}
@@ -0,0 +1,178 @@
+import { ALL_FORMATS, AudioBufferSink, Input } from 'mediabunny'
+import { createSource } from './media-source.ts'
+import type { AudioVisualization, MediaItem } from './playlist.ts'
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+type Box = { x: number, y: number, width: number, height: number }
+
+// Audio items are drawn at a fixed 16:9 size; the compositor scales them like any other source
+const CANVAS_WIDTH = 1280
+const CANVAS_HEIGHT = 720
+const WAVEFORM_BUCKETS = 480
+const SPECTRUM_BARS = 64
+const SPECTRUM_RANGE = 0.6 // Share of the analyser's bins shown; the top end is mostly empty
+const PLAYED_COLOR = '#667eea'
+const UNPLAYED_COLOR = 'rgba(255, 255, 255, 0.35)'
+const BACKGROUND_COLOR = '#111'
+const BAR_GAP = 0.3 // Of each bar's slot
+
+// Peaks are decoded from the whole file, so they're kept per URL for the thumbnail, the player and exports
+const waveforms = new Map<string, Promise<Float32Array>>()
+
+// Loudest sample in each slice of a file's audio, scaled so the loudest slice is 1
+export function getWaveform(url: string): Promise<Float32Array> {
+  let waveform = waveforms.get(url)
+  if (!waveform) {
+    waveform = computeWaveform(url)
+    waveform.catch(() => waveforms.delete(url)) // Allow another try later
+    waveforms.set(url, waveform)
+  }
+  return waveform
+}
+
+// What an audio item shows, falling back from the spectrum to the waveform where there's no live sound
+export function resolveVisualization(item: MediaItem, live: boolean): AudioVisualization | null {
+  const visualization = item.visualization ?? (item.cover ? null : 'waveform')
+  return visualization === 'spectrum' && !live ? 'waveform' : visualization
+}
+
+// Renders audio items onto a canvas of their own: the cover, the visualization, or both
+export class AudioVisualizer {
+  readonly canvas: HTMLCanvasElement
+  private context: CanvasRenderingContext2D
+  private item: MediaItem | null = null
+  private cover: HTMLImageElement | null = null
+  private peaks: Float32Array | null = null
+  private analyser: AnalyserNode | null = null
+  private spectrum: Uint8Array<ArrayBuffer> | null = null
+
+  constructor() {
+    this.canvas = document.createElement('canvas')
+    this.canvas.width = CANVAS_WIDTH
+    this.canvas.height = CANVAS_HEIGHT
+    this.context = this.canvas.getContext('2d')!
+  }
+
+  // Switches to an item, resolving once its cover and waveform are ready (or have failed to load).
+  // With an analyser of the item's live sound, 'spectrum' items show its frequencies.
+  async load(item: MediaItem, analyser: AnalyserNode | null = null) {
+    this.item = item
+    this.cover = null
+    this.peaks = null
+    this.analyser = analyser
+    this.spectrum = analyser ? new Uint8Array(analyser.frequencyBinCount) : null
+
+    const loads: Promise<void>[] = []
+    if (item.cover) {
+      const image = new Image()
+      image.crossOrigin = 'anonymous'
+      image.src = item.cover
+      loads.push(image.decode().then(() => {
+        if (this.item === item) this.cover = image
+      }, error => {
+        console.warn(`Cover ${item.cover} failed to load:`, error)
+      }))
+    }
+    if (resolveVisualization(item, analyser !== null) === 'waveform') {
+      loads.push(getWaveform(item.url).then(peaks => {
+        if (this.item === item) this.peaks = peaks
+      }, error => {
+        console.warn(`Waveform of ${item.url} unavailable:`, error)
+      }))
+    }
+    await Promise.all(loads)
+  }
+
+  // Draws the current item with the playhead at `progress` (0-1 through the file)
+  render(progress: number) {
+    const item = this.item
+    if (!item) return
+
+    const ctx = this.context
+    const { width, height } = this.canvas
+    ctx.fillStyle = BACKGROUND_COLOR
+    ctx.fillRect(0, 0, width, height)
+
+    const visualization = resolveVisualization(item, this.analyser !== null)
+    if (this.cover) {
+      drawContained(ctx, this.cover, { x: 0, y: 0, width, height })
+    }
+
+    // Alone, the visualization takes the middle of the frame; under a cover, a band along the bottom
+    const box = this.cover
+      ? { x: 0, y: height * 0.8, width, height: height * 0.2 }
+      : { x: width * 0.05, y: height * 0.25, width: width * 0.9, height: height * 0.5 }
+    if (visualization === 'spectrum' && this.analyser && this.spectrum) {
+      this.analyser.getByteFrequencyData(this.spectrum)
+      drawSpectrum(ctx, this.spectrum, box)
+    } else if (visualization === 'waveform') {
+      drawWaveform(ctx, this.peaks, progress, box)
+    }
+  }
+}
+
+// Mirrored bars, coloured up to the playhead; a flat line until the peaks are known
+export function drawWaveform(ctx: Context2D, peaks: Float32Array | null, progress: number, box: Box) {
+  const middle = box.y + box.height / 2
+  if (!peaks) {
+    ctx.fillStyle = UNPLAYED_COLOR
+    ctx.fillRect(box.x, middle - 1, box.width, 2)
+    return
+  }
+
+  const slot = box.width / peaks.length
+  peaks.forEach((peak, index) => {
+    const barHeight = Math.max(2, peak * box.height)
+    ctx.fillStyle = index / peaks.length < progress ? PLAYED_COLOR : UNPLAYED_COLOR
+    ctx.fillRect(box.x + index * slot, middle - barHeight / 2, slot * (1 - BAR_GAP), barHeight)
+  })
+}
+
+function drawSpectrum(ctx: Context2D, spectrum: Uint8Array, box: Box) {
+  const binsPerBar = Math.max(1, Math.floor(spectrum.length * SPECTRUM_RANGE / SPECTRUM_BARS))
+  const slot = box.width / SPECTRUM_BARS
+  ctx.fillStyle = PLAYED_COLOR
+
+  for (let bar = 0; bar < SPECTRUM_BARS; bar++) {
+    let sum = 0
+    for (let bin = bar * binsPerBar; bin < (bar + 1) * binsPerBar; bin++) {
+      sum += spectrum[bin]
+    }
+    const barHeight = Math.max(2, (sum / binsPerBar / 255) * box.height)
+    ctx.fillRect(box.x + bar * slot, box.y + box.height - barHeight, slot * (1 - BAR_GAP), barHeight)
+  }
+}
+
+function drawContained(ctx: Context2D, image: HTMLImageElement, box: Box) {
+  const scale = Math.min(box.width / image.naturalWidth, box.height / image.naturalHeight)
+  const width = image.naturalWidth * scale
+  const height = image.naturalHeight * scale
+  ctx.drawImage(image, box.x + (box.width - width) / 2, box.y + (box.height - height) / 2, width, height)
+}
+
+async function computeWaveform(url: string): Promise<Float32Array> {
+  const input = new Input({ source: createSource(url), formats: ALL_FORMATS })
+  const track = await input.getPrimaryAudioTrack()
+  if (!track || !(await track.canDecode())) {
+    throw new Error(`Cannot decode the audio in ${url}`)
+  }
+
+  const duration = await input.computeDuration()
+  const peaks = new Float32Array(WAVEFORM_BUCKETS)
+  for await (const { buffer, timestamp } of new AudioBufferSink(track).buffers()) {
+    // The first channel is enough for a picture of the loudness
+    const samples = buffer.getChannelData(0)
+    const bucketsPerSample = WAVEFORM_BUCKETS / (duration * buffer.sampleRate)
+    const firstBucket = (timestamp / duration) * WAVEFORM_BUCKETS
+    for (let i = 0; i < samples.length; i++) {
+      const bucket = Math.floor(firstBucket + i * bucketsPerSample)
+      if (bucket >= WAVEFORM_BUCKETS) break
+      const value = Math.abs(samples[i])
+      if (bucket >= 0 && value > peaks[bucket]) peaks[bucket] = value
+    }
+  }
+
+  const loudest = peaks.reduce((max, peak) => Math.max(max, peak), 0)
+  return loudest > 0 ? peaks.map(peak => peak / loudest) : peaks
+}
@@ -0,0 +1,270 @@
+import { DEFAULT_TRANSITION_DURATION } from './playlist.ts'
+import type { FitMode, KenBurnsEffect, KenBurnsFrame, MediaTransition } from './playlist.ts'
+
+export type CompositorLayer = {
+  source: CanvasImageSource
+  width: number // Intrinsic size of the source, after rotation
+  height: number
+  fit?: FitMode // Defaults to 'contain'; Ken Burns always covers
+  kenBurns?: KenBurnsEffect
+  getProgress?: () => number // 0-1 through the item, drives Ken Burns
+  render?: () => void // Redraws a source that is a canvas of its own, before each frame it's shown in
+}
+
+type ActiveTransition = {
+  transition: MediaTransition
+  outgoing: CompositorLayer
+  startTime: number // performance.now() when the transition began
+}
+
+type Box = { x: number, y: number, width: number, height: number }
+
+const DEFAULT_KEN_BURNS: Required<KenBurnsEffect> = {
+  from: { scale: 1, x: 0.5, y: 0.5 },
+  to: { scale: 1.2, x: 0.6, y: 0.4 }
+}
+
+// Draws the current item (and, during a transition, the outgoing one) onto a single canvas
+export class Compositor {
+  readonly canvas: HTMLCanvasElement
+  private context: CanvasRenderingContext2D
+  private current: CompositorLayer | null = null
+  private activeTransition: ActiveTransition | null = null
+  private renderHandle: number | null = null
+  private pixelRatio = 1 // Canvas pixels per CSS pixel
+
+  onFrame: (() => void) | null = null // Called once per rendered frame
+  drawOverlay: ((ctx: CanvasRenderingContext2D) => void) | null = null // Draws on top of the media, every frame
+
+  constructor() {
+    this.canvas = document.createElement('canvas')
+    this.canvas.className = 'compositor'
+    this.context = this.canvas.getContext('2d')!
+  }
+
+  get isTransitioning() {
+    return this.activeTransition !== null
+  }
+
+  // Make a layer current, optionally transitioning from whatever is on screen
+  show(layer: CompositorLayer, transition?: MediaTransition) {
+    const outgoing = this.current
+    this.current = layer
+
+    if (outgoing && transition && transition.type !== 'cut') {
+      this.activeTransition = { transition, outgoing: freezeProgress(outgoing), startTime: performance.now() }
+    } else {
+      this.activeTransition = null
+    }
+  }
+
+  // Replace the current layer's source with a still copy, so it survives its element being reused
+  freeze() {
+    if (!this.current) return
+    this.current = snapshotLayer(this.current)
+  }
+
+  // Nothing left to show, e.g. after the last item was removed
+  clear() {
+    this.current = null
+    this.activeTransition = null
+  }
+
+  // Size the backing store for a canvas shown at this many CSS pixels, following the device pixel ratio.
+  // The canvas itself is laid out by the stylesheet
+  resize(width: number, height: number) {
+    this.pixelRatio = window.devicePixelRatio || 1
+    const canvasWidth = Math.max(1, Math.round(width * this.pixelRatio))
+    const canvasHeight = Math.max(1, Math.round(height * this.pixelRatio))
+    // Setting the size clears the canvas, even to the same size
+    if (this.canvas.width !== canvasWidth || this.canvas.height !== canvasHeight) {
+      this.canvas.width = canvasWidth
+      this.canvas.height = canvasHeight
+    }
+  }
+
+  // Changes the current layer in place, e.g. its size when a stream moves to a rendition of another shape
+  updateLayer(changes: Partial<CompositorLayer>) {
+    if (this.current) {
+      this.current = { ...this.current, ...changes }
+    }
+  }
+
+  start() {
+    if (this.renderHandle !== null) return
+
+    const render = () => {
+      this.render()
+      this.onFrame?.()
+      this.renderHandle = requestAnimationFrame(render)
+    }
+    this.renderHandle = requestAnimationFrame(render)
+  }
+
+  stop() {
+    if (this.renderHandle !== null) {
+      cancelAnimationFrame(this.renderHandle)
+      this.renderHandle = null
+    }
+  }
+
+  private render() {
+    const { width, height } = this.canvas
+    const ctx = this.context
+    ctx.clearRect(0, 0, width, height)
+    if (!this.current) return
+    this.current.render?.()
+
+    let progress = 1
+    if (this.activeTransition) {
+      const duration = (this.activeTransition.transition.duration ?? DEFAULT_TRANSITION_DURATION) * 1000
+      progress = Math.min(1, (performance.now() - this.activeTransition.startTime) / duration)
+    }
+
+    if (!this.activeTransition || progress >= 1) {
+      this.activeTransition = null
+      drawLayer(ctx, this.current, { x: 0, y: 0, width, height }, 1, this.pixelRatio)
+    } else {
+      drawTransition(ctx, width, height, this.activeTransition.outgoing, this.current, this.activeTransition.transition, progress, this.pixelRatio)
+    }
+    this.drawOverlay?.(ctx)
+  }
+}
+
+// Draws a transition between two layers at the given progress (0-1)
+export function drawTransition(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  outgoing: CompositorLayer,
+  incoming: CompositorLayer,
+  transition: MediaTransition,
+  progress: number,
+  pixelRatio = 1
+) {
+  const eased = easeInOut(progress)
+  const full: Box = { x: 0, y: 0, width, height }
+
+  switch (transition.type) {
+    case 'crossfade':
+      drawLayer(ctx, outgoing, full, 1, pixelRatio)
+      drawLayer(ctx, incoming, full, eased, pixelRatio)
+      break
+
+    case 'slide': {
+      // The incoming item pushes the outgoing one in the given direction
+      const [dx, dy] = {
+        left: [-1, 0],
+        right: [1, 0],
+        up: [0, -1],
+        down: [0, 1]
+      }[transition.direction ?? 'left']
+      drawLayer(ctx, outgoing, { ...full, x: dx * width * eased, y: dy * height * eased }, 1, pixelRatio)
+      drawLayer(ctx, incoming, { ...full, x: -dx * width * (1 - eased), y: -dy * height * (1 - eased) }, 1, pixelRatio)
+      break
+    }
+
+    case 'dip-to-black': {
+      // Fade out to black over the first half, fade in from black over the second
+      const showingIncoming = progress >= 0.5
+      drawLayer(ctx, showingIncoming ? incoming : outgoing, full, 1, pixelRatio)
+      ctx.fillStyle = '#000'
+      ctx.globalAlpha = showingIncoming ? (1 - progress) * 2 : progress * 2
+      ctx.fillRect(0, 0, width, height)
+      ctx.globalAlpha = 1
+      break
+    }
+
+    case 'cut':
+      drawLayer(ctx, incoming, full, 1, pixelRatio)
+      break
+  }
+}
+
+// Draws a layer into a box as its fit mode says, or cropped and panned when it has a Ken Burns effect.
+// pixelRatio is the box's pixels per CSS pixel, which 'native' shows the source at
+export function drawLayer(ctx: CanvasRenderingContext2D, layer: CompositorLayer, box: Box, alpha = 1, pixelRatio = 1) {
+  if (!layer.width || !layer.height) return
+
+  ctx.save()
+  ctx.globalAlpha = alpha
+  ctx.beginPath()
+  ctx.rect(box.x, box.y, box.width, box.height)
+  ctx.clip()
+
+  if (layer.kenBurns) {
+    const frame = interpolateKenBurns(layer.kenBurns, layer.getProgress?.() ?? 0)
+    // Cover the box, then zoom; the focal point keeps its relative position in the box
+    const scale = Math.max(box.width / layer.width, box.height / layer.height) * frame.scale
+    const drawWidth = layer.width * scale
+    const drawHeight = layer.height * scale
+    const x = box.x + (box.width - drawWidth) * frame.x
+    const y = box.y + (box.height - drawHeight) * frame.y
+    ctx.drawImage(layer.source, x, y, drawWidth, drawHeight)
+  } else {
+    const [drawWidth, drawHeight] = fitSize(layer, box, pixelRatio)
+    ctx.drawImage(layer.source, box.x + (box.width - drawWidth) / 2, box.y + (box.height - drawHeight) / 2, drawWidth, drawHeight)
+  }
+
+  ctx.restore()
+}
+
+// Seconds at the end of an item that overlap with the transition of the item after it
+export function getTransitionOverlap(outgoingDuration: number, transition?: MediaTransition) {
+  if (!transition || transition.type === 'cut') return 0
+  return Math.min(transition.duration ?? DEFAULT_TRANSITION_DURATION, outgoingDuration / 2)
+}
+
+export function resolveKenBurns(kenBurns: KenBurnsEffect | boolean | undefined): KenBurnsEffect | undefined {
+  if (!kenBurns) return undefined
+  if (kenBurns === true) return DEFAULT_KEN_BURNS
+  return { from: kenBurns.from ?? DEFAULT_KEN_BURNS.from, to: kenBurns.to ?? DEFAULT_KEN_BURNS.to }
+}
+
+function fitSize(layer: CompositorLayer, box: Box, pixelRatio: number): [number, number] {
+  switch (layer.fit ?? 'contain') {
+    case 'contain': {
+      const scale = Math.min(box.width / layer.width, box.height / layer.height)
+      return [layer.width * scale, layer.height * scale]
+    }
+    case 'cover': {
+      const scale = Math.max(box.width / layer.width, box.height / layer.height)
+      return [layer.width * scale, layer.height * scale]
+    }
+    case 'fill':
+      return [box.width, box.height]
+    case 'native':
+      return [layer.width * pixelRatio, layer.height * pixelRatio]
+  }
+}
+
+function interpolateKenBurns(effect: KenBurnsEffect, progress: number): KenBurnsFrame {
+  const from = effect.from ?? DEFAULT_KEN_BURNS.from
+  const to = effect.to ?? DEFAULT_KEN_BURNS.to
+  const t = Math.max(0, Math.min(1, progress))
+  return {
+    scale: from.scale + (to.scale - from.scale) * t,
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t
+  }
+}
+
+// An outgoing layer keeps the Ken Burns position it had when it stopped being current
+function freezeProgress(layer: CompositorLayer): CompositorLayer {
+  const progress = layer.getProgress?.() ?? 0
+  return { ...layer, getProgress: () => progress }
+}
+
+function snapshotLayer(layer: CompositorLayer): CompositorLayer {
+  if (!layer.width || !layer.height || layer.source instanceof HTMLImageElement) return layer
+
+  const canvas = document.createElement('canvas')
+  canvas.width = layer.width
+  canvas.height = layer.height
+  canvas.getContext('2d')!.drawImage(layer.source, 0, 0, layer.width, layer.height)
+  return { ...layer, source: canvas, render: undefined }
+}
+
+function easeInOut(t: number) {
+  return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2
+}
@@ -0,0 +1,45 @@
+type Listener<T> = (event: T) => void
+
+// Minimal typed event emitter: listeners receive the event payload directly.
+// A throwing listener is logged and never interrupts the emitter or other listeners.
+export class Emitter<Events extends Record<string, unknown>> {
+  // Stored untyped; on() and off() are what tie each listener to its event's payload
+  private listeners = new Map<keyof Events, Set<Listener<unknown>>>()
+
+  // Returns a function that removes the listener again
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    let listeners = this.listeners.get(type)
+    if (!listeners) {
+      listeners = new Set()
+      this.listeners.set(type, listeners)
+    }
+    listeners.add(listener as Listener<unknown>)
+    return () => this.off(type, listener)
+  }
+
+  once<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    const off = this.on(type, event => {
+      off()
+      listener(event)
+    })
+    return off
+  }
+
+  off<K extends keyof Events>(type: K, listener: Listener<Events[K]>) {
+    this.listeners.get(type)?.delete(listener as Listener<unknown>)
+  }
+
+  protected emit<K extends keyof Events>(type: K, event: Events[K]) {
+    this.listeners.get(type)?.forEach(listener => {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error(`Error in ${String(type)} listener:`, error)
+      }
+    })
+  }
+
+  protected removeAllListeners() {
+    this.listeners.clear()
+  }
+}
@@ -0,0 +1,465 @@
+import {
+  ALL_FORMATS,
+  AudioBufferSink,
+  AudioBufferSource,
+  BufferTarget,
+  CanvasSink,
+  CanvasSource,
+  Input,
+  Mp4OutputFormat,
+  Output,
+  QUALITY_HIGH,
+  WebMOutputFormat,
+  getFirstEncodableAudioCodec,
+  getFirstEncodableVideoCodec
+} from 'mediabunny'
+import type { WrappedCanvas } from 'mediabunny'
+import { AudioVisualizer } from './audio-visualizer.ts'
+import { drawLayer, drawTransition, resolveKenBurns } from './compositor.ts'
+import type { CompositorLayer } from './compositor.ts'
+import { createSource } from './media-source.ts'
+import type { MusicTrack } from './music.ts'
+import { OverlayRenderer } from './overlays.ts'
+import type { FitMode, MediaItem, MediaOverlay, MediaType } from './playlist.ts'
+import { buildTimeline, resolveTiming, toMediaTime } from './timeline.ts'
+import type { ItemTiming } from './timeline.ts'
+
+export type ExportFormat = 'mp4' | 'webm'
+
+export type ExportOptions = {
+  format?: ExportFormat // Defaults to 'mp4'
+  width?: number // Output size in pixels, defaults to 1280x720
+  height?: number
+  frameRate?: number // Defaults to 30
+  musicTracks?: MusicTrack[] // Background tracks, played in order and looped as a whole like during playback
+  musicCrossfade?: number // Seconds of overlap between consecutive tracks (default 3)
+  musicVolumes: Record<MediaType, number> // Music level while each media type is on screen
+  overlays?: MediaOverlay[] // Drawn over every item, under the item's own overlays
+  fit?: FitMode // For items without their own; defaults to 'contain'
+  onProgress?: (progress: number) => void // 0-1
+  signal?: AbortSignal
+}
+
+type Segment = {
+  item: MediaItem
+  start: number // Position on the output timeline, in seconds
+  duration: number
+  timing: ItemTiming // Trim, speed and hold; maps output time to media time
+  frames: FrameCursor | null // Videos
+  image: ImageBitmap | null // Images
+  visualizer: AudioVisualizer | null // Audio items
+  naturalDuration: number // Of the source, for the waveform's playhead
+  audioSink: AudioBufferSink | null
+  width: number
+  height: number
+  fit: FitMode
+}
+
+const SAMPLE_RATE = 48000
+const MUSIC_RAMP_TIME = 0.3 // Seconds for music level changes between items
+const DEFAULT_CROSSFADE = 3
+// Share of the progress bar taken by rendering audio; the rest is video frames
+const AUDIO_PROGRESS_SHARE = 0.1
+
+// Renders a playlist offline (faster than real time) into a single video file
+export async function exportSlideshow(items: MediaItem[], options: ExportOptions): Promise<Blob> {
+  const {
+    format = 'mp4',
+    width = 1280,
+    height = 720,
+    frameRate = 30,
+    overlays = [],
+    fit = 'contain',
+    onProgress,
+    signal
+  } = options
+
+  const outputFormat = format === 'webm' ? new WebMOutputFormat() : new Mp4OutputFormat()
+  const output = new Output({ format: outputFormat, target: new BufferTarget() })
+  const segments: Segment[] = [] // Filled as items open, so whatever opened is released on failure too
+
+  try {
+    await openSegments(items, segments, fit, signal)
+    const totalDuration = segments.reduce((end, segment) => Math.max(end, segment.start + segment.duration), 0)
+    if (totalDuration <= 0) {
+      throw new Error('Nothing to export')
+    }
+
+    // Codecs: the first one the browser can encode for the chosen container
+    const videoCodec = await getFirstEncodableVideoCodec(outputFormat.getSupportedVideoCodecs(), { width, height })
+    if (!videoCodec) {
+      throw new Error(`This browser cannot encode video for ${format.toUpperCase()}`)
+    }
+    const audioCodec = await getFirstEncodableAudioCodec(outputFormat.getSupportedAudioCodecs(), { sampleRate: SAMPLE_RATE })
+
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d')!
+
+    const videoSource = new CanvasSource(canvas, { codec: videoCodec, bitrate: QUALITY_HIGH })
+    output.addVideoTrack(videoSource, { frameRate })
+
+    let audioSource: AudioBufferSource | null = null
+    if (audioCodec) {
+      audioSource = new AudioBufferSource({ codec: audioCodec, bitrate: QUALITY_HIGH })
+      output.addAudioTrack(audioSource)
+    } else {
+      console.warn(`No encodable audio codec for ${format.toUpperCase()}, exporting without sound`)
+    }
+
+    await output.start()
+
+    if (audioSource) {
+      const audio = await renderAudio(segments, totalDuration, options)
+      throwIfAborted(signal)
+      await audioSource.add(audio)
+      onProgress?.(AUDIO_PROGRESS_SHARE)
+    }
+
+    // Overlay images must be ready before the first frame, unlike in the player
+    const overlayRenderer = new OverlayRenderer()
+    await overlayRenderer.load([...overlays, ...segments.flatMap(segment => segment.item.overlays ?? [])])
+
+    const frameCount = Math.ceil(totalDuration * frameRate)
+    for (let frame = 0; frame < frameCount; frame++) {
+      throwIfAborted(signal)
+
+      const time = frame / frameRate
+      await drawFrameAt(ctx, segments, time)
+      drawOverlaysAt(ctx, overlayRenderer, overlays, segments, time)
+      await videoSource.add(time, 1 / frameRate)
+
+      onProgress?.(AUDIO_PROGRESS_SHARE + (1 - AUDIO_PROGRESS_SHARE) * (frame + 1) / frameCount)
+    }
+
+    await output.finalize()
+    onProgress?.(1)
+
+    return new Blob([output.target.buffer!], { type: outputFormat.mimeType })
+  } catch (error) {
+    if (output.state !== 'finalized' && output.state !== 'canceled') {
+      await output.cancel()
+    }
+    throw error
+  } finally {
+    // Images are decoded at full size and held for the whole export
+    segments.forEach(segment => segment.image?.close())
+  }
+}
+
+// Opens every item into segments and lays them out on the output timeline, overlapping transitions
+async function openSegments(items: MediaItem[], segments: Segment[], fit: FitMode, signal?: AbortSignal) {
+  const naturalDurations: (number | undefined)[] = []
+
+  for (const item of items) {
+    throwIfAborted(signal)
+
+    const segment: Segment = {
+      item,
+      start: 0,
+      duration: 0,
+      timing: resolveTiming(item, undefined),
+      frames: null,
+      image: null,
+      visualizer: null,
+      naturalDuration: 0,
+      audioSink: null,
+      width: 0,
+      height: 0,
+      fit: item.fit ?? fit
+    }
+
+    if (item.type === 'stream') {
+      throw new Error(`Streams cannot be exported (${item.url})`)
+    }
+    if (item.type === 'image') {
+      const response = await fetch(item.url, { signal })
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${item.url}: ${response.status}`)
+      }
+      segment.image = await createImageBitmap(await response.blob())
+      segment.width = segment.image.width
+      segment.height = segment.image.height
+    } else {
+      const input = new Input({ source: createSource(item.url), formats: ALL_FORMATS })
+      const audioTrack = await input.getPrimaryAudioTrack()
+      if (audioTrack && await audioTrack.canDecode()) {
+        segment.audioSink = new AudioBufferSink(audioTrack)
+      }
+
+      const naturalDuration = await input.computeDuration()
+      segment.timing = resolveTiming(item, naturalDuration)
+      segment.naturalDuration = naturalDuration
+      naturalDurations[segments.length] = naturalDuration
+
+      if (item.type === 'audio') {
+        if (!segment.audioSink) {
+          throw new Error(`Cannot decode the audio in ${item.url}`)
+        }
+        // Without live sound to analyse, a spectrum is exported as the waveform
+        segment.visualizer = new AudioVisualizer()
+        await segment.visualizer.load(item)
+        segment.width = segment.visualizer.canvas.width
+        segment.height = segment.visualizer.canvas.height
+      } else {
+        const videoTrack = await input.getPrimaryVideoTrack()
+        if (!videoTrack || !(await videoTrack.canDecode())) {
+          throw new Error(`Cannot decode the video in ${item.url}`)
+        }
+        segment.frames = new FrameCursor(new CanvasSink(videoTrack, { poolSize: 2 }), segment.timing.start)
+        segment.width = videoTrack.displayWidth
+        segment.height = videoTrack.displayHeight
+      }
+    }
+
+    segment.duration = segment.timing.duration
+    segments.push(segment)
+  }
+
+  // Same layout the player's playlist timeline uses: transitions overlap the previous item
+  const timeline = buildTimeline(items, naturalDurations)
+  timeline.segments.forEach(({ start }, index) => {
+    segments[index].start = start
+  })
+}
+
+async function drawFrameAt(ctx: CanvasRenderingContext2D, segments: Segment[], time: number) {
+  const { width, height } = ctx.canvas
+  ctx.fillStyle = '#000'
+  ctx.fillRect(0, 0, width, height)
+
+  const index = findLastIndex(segments, segment => segment.start <= time)
+  if (index === -1) return
+
+  const incoming = segments[index]
+  const incomingLayer = await getLayerAt(incoming, time)
+  const previous = segments[index - 1]
+
+  // Inside the overlap with the previous item: draw the transition between both
+  if (previous && time < previous.start + previous.duration && incoming.item.transition) {
+    const overlap = previous.start + previous.duration - incoming.start
+    const outgoingLayer = await getLayerAt(previous, time)
+    if (incomingLayer && outgoingLayer && overlap > 0) {
+      const progress = (time - incoming.start) / overlap
+      drawTransition(ctx, width, height, outgoingLayer, incomingLayer, incoming.item.transition, progress)
+      return
+    }
+  }
+
+  if (incomingLayer) {
+    drawLayer(ctx, incomingLayer, { x: 0, y: 0, width, height })
+  }
+}
+
+// Same rule as the player: the overlays of the item that is (or is becoming) current
+function drawOverlaysAt(ctx: CanvasRenderingContext2D, renderer: OverlayRenderer, overlays: MediaOverlay[], segments: Segment[], time: number) {
+  const segment = segments[findLastIndex(segments, segment => segment.start <= time)]
+  if (!segment) return
+  const localTime = Math.min(time - segment.start, segment.duration)
+  renderer.draw(ctx, [...overlays, ...(segment.item.overlays ?? [])], localTime, segment.duration)
+}
+
+async function getLayerAt(segment: Segment, time: number): Promise<CompositorLayer | null> {
+  const localTime = Math.min(time - segment.start, segment.duration)
+  const progress = segment.duration > 0 ? localTime / segment.duration : 0
+
+  if (segment.image) {
+    return {
+      source: segment.image,
+      width: segment.width,
+      height: segment.height,
+      fit: segment.fit,
+      kenBurns: resolveKenBurns(segment.item.kenBurns),
+      getProgress: () => progress
+    }
+  }
+
+  if (segment.visualizer) {
+    const mediaTime = toMediaTime(segment.timing, localTime)
+    segment.visualizer.render(segment.naturalDuration > 0 ? mediaTime / segment.naturalDuration : 0)
+    return { source: segment.visualizer.canvas, width: segment.width, height: segment.height, fit: segment.fit }
+  }
+
+  // Past the out point this keeps returning the last frame, which covers the hold
+  const frame = await segment.frames?.frameAt(toMediaTime(segment.timing, localTime))
+  if (!frame) return null
+  return { source: frame.canvas, width: segment.width, height: segment.height, fit: segment.fit }
+}
+
+// Mixes every video's and audio item's own sound with the background music, ducked per item like during playback
+async function renderAudio(segments: Segment[], totalDuration: number, options: ExportOptions): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(2, Math.ceil(totalDuration * SAMPLE_RATE), SAMPLE_RATE)
+
+  for (const segment of segments) {
+    if (!segment.audioSink) continue
+
+    const { start, end, rate } = segment.timing
+    for await (const { buffer, timestamp } of segment.audioSink.buffers(start, end)) {
+      throwIfAborted(options.signal)
+      const node = context.createBufferSource()
+      node.buffer = buffer
+      node.playbackRate.value = rate
+      node.connect(context.destination)
+      // The first buffer may begin before the in point
+      const offset = Math.max(0, start - timestamp)
+      node.start(segment.start + (timestamp + offset - start) / rate, offset)
+      node.stop(segment.start + (end - start) / rate)
+    }
+  }
+
+  if (options.musicTracks?.length) {
+    await renderMusic(context, segments, totalDuration, options)
+  }
+
+  return context.startRendering()
+}
+
+// Schedules the background tracks the way MusicEngine plays them: in order with crossfades, switching
+// where an item picks a track, at each item's level. Videos duck to their fixed level for their whole
+// length, since the export can't follow their loudness the way playback's level meter does
+async function renderMusic(context: OfflineAudioContext, segments: Segment[], totalDuration: number, options: ExportOptions) {
+  const tracks = [...options.musicTracks!]
+  const crossfade = Math.max(0, options.musicCrossfade ?? DEFAULT_CROSSFADE)
+
+  const level = context.createGain()
+  level.connect(context.destination)
+  level.gain.setValueAtTime(getMusicVolume(segments[0].item, options.musicVolumes), 0)
+  for (const segment of segments.slice(1)) {
+    level.gain.setTargetAtTime(getMusicVolume(segment.item, options.musicVolumes), segment.start, MUSIC_RAMP_TIME / 3)
+  }
+
+  // Items' track picks in timeline order; like selectTrack, URLs not in the list are added to it
+  const picks: { time: number, index: number }[] = []
+  for (const { item, start } of segments) {
+    const track = item.music?.track
+    if (track === undefined) continue
+    let index = typeof track === 'number' ? track : tracks.findIndex(({ url }) => url === track)
+    if (typeof track === 'string' && index === -1) {
+      index = tracks.push({ url: track }) - 1
+    }
+    if (index < 0 || index >= tracks.length) {
+      console.warn(`Unknown music track: ${track}`)
+      continue
+    }
+    picks.push({ time: start, index })
+  }
+
+  const buffers = new Map<number, Promise<AudioBuffer | null>>()
+  const load = (index: number) => {
+    let buffer = buffers.get(index)
+    if (!buffer) {
+      buffer = decodeTrack(context, tracks[index].url, options.signal)
+      buffers.set(index, buffer)
+    }
+    return buffer
+  }
+
+  let index = 0
+  let start = 0
+  let fadeIn = false
+  while (start < totalDuration) {
+    // Picks of the track already playing change nothing
+    while (picks.length > 0 && (picks[0].time <= start || picks[0].index === index)) {
+      index = picks.shift()!.index
+    }
+
+    // A lone track loops on its own; a track that failed to load stays silent, as during playback
+    const buffer = await load(index)
+    const naturalEnd = buffer && tracks.length > 1
+      ? start + Math.max(buffer.duration - crossfade, MUSIC_RAMP_TIME)
+      : Infinity
+    const pick = picks.length > 0 && picks[0].time < naturalEnd ? picks.shift()! : null
+    const end = pick?.time ?? naturalEnd
+
+    if (buffer) {
+      const volume = tracks[index].volume ?? 1
+      // Cut short during its fade-in, a track fades out from where it got to
+      const reached = fadeIn ? Math.min(1, (end - start) / crossfade) : 1
+      const gain = context.createGain()
+      gain.connect(level)
+      gain.gain.setValueAtTime(fadeIn ? 0 : volume, start)
+      gain.gain.linearRampToValueAtTime(volume * reached, Math.min(end, start + (fadeIn ? crossfade : 0)))
+      if (end < totalDuration) {
+        gain.gain.linearRampToValueAtTime(0, end + crossfade * reached)
+      }
+
+      const source = context.createBufferSource()
+      source.buffer = buffer
+      source.loop = tracks.length === 1
+      source.connect(gain)
+      source.start(start)
+      if (end < totalDuration) source.stop(end + crossfade * reached)
+    }
+
+    index = pick?.index ?? (index + 1) % tracks.length
+    start = end
+    fadeIn = crossfade > 0
+  }
+}
+
+async function decodeTrack(context: OfflineAudioContext, url: string, signal?: AbortSignal): Promise<AudioBuffer | null> {
+  const response = await fetch(url, { signal })
+  if (!response.ok) {
+    console.warn(`Background music ${url} unavailable for export: ${response.status}`)
+    return null
+  }
+  return context.decodeAudioData(await response.arrayBuffer())
+}
+
+// Mirrors the player's adjustMusicVolume: images and items that don't duck play at the image level
+function getMusicVolume(item: MediaItem, musicVolumes: Record<MediaType, number>) {
+  const music = item.music
+  if (music?.muted) return 0
+  if (item.type === 'image' || music?.duck === false) return music?.volume ?? musicVolumes.image
+  return music?.volume ?? musicVolumes[item.type]
+}
+
+// Walks a CanvasSink forwards, returning the frame on screen at monotonically increasing times
+class FrameCursor {
+  private iterator: AsyncGenerator<WrappedCanvas, void, unknown>
+  private current: WrappedCanvas | null = null
+  private next: WrappedCanvas | null = null
+  private done = false
+
+  constructor(sink: CanvasSink, startTime = 0) {
+    this.iterator = sink.canvases(startTime)
+  }
+
+  async frameAt(time: number): Promise<WrappedCanvas | null> {
+    if (!this.current && !this.done) {
+      this.current = await this.pull()
+      this.next = await this.pull()
+    }
+
+    while (this.next && this.next.timestamp <= time) {
+      this.current = this.next
+      this.next = await this.pull()
+    }
+
+    return this.current
+  }
+
+  private async pull(): Promise<WrappedCanvas | null> {
+    if (this.done) return null
+    const result = await this.iterator.next()
+    if (result.done) {
+      this.done = true
+      return null
+    }
+    return result.value
+  }
+}
+
+function findLastIndex<T>(array: T[], predicate: (value: T) => boolean) {
+  for (let i = array.length - 1; i >= 0; i--) {
+    if (predicate(array[i])) return i
+  }
+  return -1
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new DOMException('Export cancelled', 'AbortError')
+  }
+}
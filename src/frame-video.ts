@@ -0,0 +1,422 @@
+import { ALL_FORMATS, AudioBufferSink, CanvasSink, Input } from 'mediabunny'
+import type { WrappedAudioBuffer, WrappedCanvas } from 'mediabunny'
+import { createSource } from './media-source.ts'
+import { measureLevel } from './music.ts'
+
+// How far ahead of the playhead audio is decoded and scheduled, in seconds
+const AUDIO_LOOKAHEAD = 1
+// Minimum interval between timeupdate events, in milliseconds (roughly what <video> does)
+const TIME_UPDATE_INTERVAL = 100
+
+// A <video>-like element that decodes with mediabunny and paints frames onto a canvas.
+// It dispatches the same events the player listens for on HTMLVideoElement
+// (loadedmetadata, play, pause, timeupdate, seeked, ended, error) and keeps the
+// last painted frame on screen until the next source has its first frame ready.
+export class FrameVideo extends EventTarget {
+  readonly canvas: HTMLCanvasElement
+  private context: CanvasRenderingContext2D
+
+  src = ''
+  videoWidth = 0
+  videoHeight = 0
+
+  private videoSink: CanvasSink | null = null
+  private audioSink: AudioBufferSink | null = null
+  private audioContext: AudioContext | null = null
+  private gainNode: GainNode | null = null
+  private analyser: AnalyserNode | null = null // Taps the output so callers can meter it
+  private capture: MediaStreamAudioDestinationNode | null = null // Taps the output for recording
+
+  private frameIterator: AsyncGenerator<WrappedCanvas, void, unknown> | null = null
+  private nextFrame: WrappedCanvas | null = null
+  private audioIterator: AsyncGenerator<WrappedAudioBuffer, void, unknown> | null = null
+  private queuedAudioNodes = new Set<AudioBufferSourceNode>()
+
+  private _duration = NaN
+  private _paused = true
+  private _ended = false
+  private _muted = false
+  private _volume = 1
+  private _playbackRate = 1
+
+  private pausedTime = 0 // Media time while paused
+  private playbackStartTime = 0 // Media time at which playback last started
+  private clockStartTime = 0 // Clock time at which playback last started
+  private loadGeneration = 0 // Incremented on every load so stale async work can bail out
+  private iteratorGeneration = 0 // Incremented whenever the frame iterator is restarted
+  private renderHandle: number | null = null
+  private lastTimeUpdate = 0
+
+  constructor() {
+    super()
+    this.canvas = document.createElement('canvas')
+    this.context = this.canvas.getContext('2d')!
+  }
+
+  get duration() {
+    return this._duration
+  }
+
+  get paused() {
+    return this._paused
+  }
+
+  get ended() {
+    return this._ended
+  }
+
+  get muted() {
+    return this._muted
+  }
+
+  set muted(value: boolean) {
+    this._muted = value
+    this.updateGain()
+  }
+
+  get volume() {
+    return this._volume
+  }
+
+  set volume(value: number) {
+    this._volume = Math.max(0, Math.min(1, value))
+    this.updateGain()
+  }
+
+  // Audio is resampled rather than time-stretched, so its pitch follows the rate
+  get playbackRate() {
+    return this._playbackRate
+  }
+
+  set playbackRate(rate: number) {
+    if (rate === this._playbackRate || !(rate > 0)) return
+
+    if (this._paused) {
+      this._playbackRate = rate
+      return
+    }
+
+    // Re-anchor the clock at the current position, then reschedule audio at the new speed
+    const time = this.currentTime
+    this.stopAudio()
+    this._playbackRate = rate
+    this.playbackStartTime = time
+    this.clockStartTime = this.getClockTime()
+    this.startAudio()
+  }
+
+  get currentTime() {
+    if (this._paused) return this.pausedTime
+    return Math.min(this._duration, this.playbackStartTime + (this.getClockTime() - this.clockStartTime) * this._playbackRate)
+  }
+
+  set currentTime(time: number) {
+    this.seekTo(time).catch(error => this.dispatchError(error))
+  }
+
+  // Opens the source and paints its first frame; resolves once metadata is known
+  async load(url: string) {
+    const generation = ++this.loadGeneration
+    this.stopPlayback()
+    this.stopFrameIterator()
+
+    this.src = url
+    this._ended = false
+    this._duration = NaN
+    this.pausedTime = 0
+
+    try {
+      const input = new Input({ source: createSource(url), formats: ALL_FORMATS })
+      const videoTrack = await input.getPrimaryVideoTrack()
+      const audioTrack = await input.getPrimaryAudioTrack()
+      if (generation !== this.loadGeneration) return
+
+      if (!videoTrack) {
+        throw new Error(`No video track found in ${url}`)
+      }
+      if (!(await videoTrack.canDecode())) {
+        throw new Error(`This browser cannot decode the ${videoTrack.codec ?? 'unknown'} video in ${url}`)
+      }
+
+      const canDecodeAudio = audioTrack ? await audioTrack.canDecode() : false
+      if (audioTrack && !canDecodeAudio) {
+        console.warn(`Cannot decode ${audioTrack.codec ?? 'unknown'} audio in ${url}, playing without sound`)
+      }
+
+      const duration = await input.computeDuration()
+      if (generation !== this.loadGeneration) return
+
+      this.videoSink = new CanvasSink(videoTrack, { poolSize: 2 })
+      this.audioSink = audioTrack && canDecodeAudio ? new AudioBufferSink(audioTrack) : null
+      this._duration = duration
+      this.videoWidth = videoTrack.displayWidth
+      this.videoHeight = videoTrack.displayHeight
+
+      if (this.audioSink) {
+        this.ensureAudioContext()
+      }
+
+      // The previous frame stays on the canvas until this one is ready
+      await this.startFrameIterator(0)
+      if (generation !== this.loadGeneration) return
+
+      this.dispatchEvent(new Event('loadedmetadata'))
+      this.dispatchEvent(new Event('loadeddata'))
+    } catch (error) {
+      if (generation === this.loadGeneration) {
+        this.dispatchError(error)
+      }
+      throw error
+    }
+  }
+
+  async play() {
+    if (!this.videoSink || !this._paused) return
+
+    if (this._ended || this.pausedTime >= this._duration) {
+      await this.seekTo(0)
+    }
+
+    if (this.audioContext && this.audioContext.state === 'suspended') {
+      await this.audioContext.resume()
+    }
+
+    this._paused = false
+    this._ended = false
+    this.playbackStartTime = this.pausedTime
+    this.clockStartTime = this.getClockTime()
+
+    this.startAudio()
+    this.startRenderLoop()
+    this.dispatchEvent(new Event('play'))
+  }
+
+  pause() {
+    if (this._paused) return
+
+    this.pausedTime = this.currentTime
+    this.stopPlayback()
+    this.dispatchEvent(new Event('pause'))
+  }
+
+  // Current output level (0-1 RMS), for ducking background music under the video's own sound
+  getAudioLevel() {
+    if (!this.analyser || this._paused) return 0
+    return measureLevel(this.analyser)
+  }
+
+  // The sound as a stream, for recording from another audio context; null until audio has loaded
+  captureAudio(): MediaStream | null {
+    if (!this.audioContext || !this.analyser) return null
+    if (!this.capture) {
+      this.capture = this.audioContext.createMediaStreamDestination()
+      this.analyser.connect(this.capture)
+    }
+    return this.capture.stream
+  }
+
+  // Releases decoders and audio resources; the instance can be reused with load()
+  dispose() {
+    this.loadGeneration++
+    this.stopPlayback()
+    this.stopFrameIterator()
+    this.videoSink = null
+    this.audioSink = null
+    this.audioContext?.close()
+    this.audioContext = null
+    this.gainNode = null
+    this.analyser = null
+    this.capture = null
+  }
+
+  private async seekTo(time: number) {
+    if (!this.videoSink) return
+
+    const target = Math.max(0, Math.min(time, this._duration))
+    const wasPlaying = !this._paused
+
+    this.stopPlayback()
+    this.pausedTime = target
+    this._ended = false
+
+    const generation = this.loadGeneration
+    await this.startFrameIterator(target)
+    if (generation !== this.loadGeneration) return
+
+    this.dispatchEvent(new Event('seeked'))
+    this.dispatchEvent(new Event('timeupdate'))
+
+    if (wasPlaying) {
+      await this.play()
+    }
+  }
+
+  // Restarts frame decoding at the given time and paints the frame shown at that time
+  private async startFrameIterator(time: number) {
+    this.stopFrameIterator()
+    const generation = ++this.iteratorGeneration
+
+    this.frameIterator = this.videoSink!.canvases(time)
+    const first = (await this.frameIterator.next()).value ?? null
+    const second = (await this.frameIterator.next()).value ?? null
+    if (generation !== this.iteratorGeneration) return
+
+    if (first) {
+      this.drawFrame(first)
+    }
+    this.nextFrame = second
+  }
+
+  private stopFrameIterator() {
+    this.iteratorGeneration++
+    this.frameIterator?.return()
+    this.frameIterator = null
+    this.nextFrame = null
+  }
+
+  // Pulls frames until one lies in the future; frames that are already late get painted and skipped
+  private async updateNextFrame() {
+    const generation = this.iteratorGeneration
+
+    while (this.frameIterator) {
+      const frame = (await this.frameIterator.next()).value ?? null
+      if (generation !== this.iteratorGeneration) return
+      if (!frame) break
+
+      if (frame.timestamp <= this.currentTime) {
+        this.drawFrame(frame)
+      } else {
+        this.nextFrame = frame
+        break
+      }
+    }
+  }
+
+  private startRenderLoop() {
+    const render = () => {
+      if (this._paused) return
+
+      const time = this.currentTime
+
+      if (this.nextFrame && this.nextFrame.timestamp <= time) {
+        this.drawFrame(this.nextFrame)
+        this.nextFrame = null
+        this.updateNextFrame()
+      }
+
+      const now = performance.now()
+      if (now - this.lastTimeUpdate >= TIME_UPDATE_INTERVAL) {
+        this.lastTimeUpdate = now
+        this.dispatchEvent(new Event('timeupdate'))
+      }
+
+      if (time >= this._duration) {
+        this.handleEnded()
+        return
+      }
+
+      this.renderHandle = requestAnimationFrame(render)
+    }
+
+    this.renderHandle = requestAnimationFrame(render)
+  }
+
+  private handleEnded() {
+    this.pausedTime = this._duration
+    this.stopPlayback()
+    this._ended = true
+    this.dispatchEvent(new Event('timeupdate'))
+    this.dispatchEvent(new Event('pause'))
+    this.dispatchEvent(new Event('ended'))
+  }
+
+  private stopPlayback() {
+    this._paused = true
+
+    if (this.renderHandle !== null) {
+      cancelAnimationFrame(this.renderHandle)
+      this.renderHandle = null
+    }
+
+    this.stopAudio()
+  }
+
+  private stopAudio() {
+    this.audioIterator?.return()
+    this.audioIterator = null
+    this.queuedAudioNodes.forEach(node => node.stop())
+    this.queuedAudioNodes.clear()
+  }
+
+  private async startAudio() {
+    if (!this.audioSink || !this.audioContext || !this.gainNode) return
+
+    const context = this.audioContext
+    const iterator = this.audioSink.buffers(this.playbackStartTime)
+    this.audioIterator = iterator
+
+    for await (const { buffer, timestamp } of iterator) {
+      if (this.audioIterator !== iterator) return
+
+      const node = context.createBufferSource()
+      node.buffer = buffer
+      node.playbackRate.value = this._playbackRate
+      node.connect(this.gainNode)
+
+      // Map media time onto the audio clock
+      const startAt = this.clockStartTime + (timestamp - this.playbackStartTime) / this._playbackRate
+      if (startAt >= context.currentTime) {
+        node.start(startAt)
+      } else {
+        node.start(context.currentTime, (context.currentTime - startAt) * this._playbackRate)
+      }
+
+      this.queuedAudioNodes.add(node)
+      node.onended = () => this.queuedAudioNodes.delete(node)
+
+      // Don't decode too far ahead of the playhead
+      while (timestamp - this.currentTime >= AUDIO_LOOKAHEAD && this.audioIterator === iterator) {
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+    }
+  }
+
+  private ensureAudioContext() {
+    if (this.audioContext) return
+
+    this.audioContext = new AudioContext()
+    this.gainNode = this.audioContext.createGain()
+    this.analyser = this.audioContext.createAnalyser()
+    this.analyser.fftSize = 1024
+    this.gainNode.connect(this.analyser)
+    this.analyser.connect(this.audioContext.destination)
+    this.updateGain()
+  }
+
+  private updateGain() {
+    if (this.gainNode) {
+      this.gainNode.gain.value = this._muted ? 0 : this._volume
+    }
+  }
+
+  // The audio clock keeps frames in sync with sound; sources without audio run off the wall clock
+  private getClockTime() {
+    if (this.audioSink && this.audioContext) {
+      return this.audioContext.currentTime
+    }
+    return performance.now() / 1000
+  }
+
+  private drawFrame(frame: WrappedCanvas) {
+    if (this.canvas.width !== frame.canvas.width || this.canvas.height !== frame.canvas.height) {
+      this.canvas.width = frame.canvas.width
+      this.canvas.height = frame.canvas.height
+    }
+    this.context.drawImage(frame.canvas, 0, 0)
+  }
+
+  private dispatchError(error: unknown) {
+    console.error('FrameVideo error:', error)
+    this.dispatchEvent(new Event('error'))
+  }
+}
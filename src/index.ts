@@ -0,0 +1,44 @@
+// Library entry for embedding the player in other pages
+import './style.css'
+
+export { MediabunnyPlayer } from './player.ts'
+export type { PlayerEvents, PlayerOptions, PlayerState, TimelineMode, VideoBackend } from './player.ts'
+export { loadPlaylistSource, parseM3U, parsePlaylistManifest, validateMediaItem } from './playlist.ts'
+export type {
+  AudioVisualization,
+  FitMode,
+  KenBurnsEffect,
+  KenBurnsFrame,
+  MediaItem,
+  MediaMusicSettings,
+  MediaOverlay,
+  MediaTransition,
+  MediaType,
+  OverlayPosition,
+  PlaylistLoadResult,
+  PlaylistManifest,
+  PlaylistSource,
+  SlideDirection,
+  SubtitleFile,
+  TransitionType
+} from './playlist.ts'
+export type { StreamQuality } from './adaptive-stream.ts'
+export type { ExportFormat, ExportOptions } from './exporter.ts'
+export { DEFAULT_KEYMAP } from './keymap.ts'
+export type { KeyAction, Keymap } from './keymap.ts'
+export { LoadTimeoutError, MediaLoadError } from './load-errors.ts'
+export type { ErrorHandlingOptions, ItemLoadError } from './load-errors.ts'
+export { classifyFile, createLocalItems } from './local-files.ts'
+export type { LocalFilesResult } from './local-files.ts'
+export type { AudioTrackInfo, MediaInfo, PlaybackIssue, VideoTrackInfo } from './media-info.ts'
+export type { MusicOptions, MusicTrack } from './music.ts'
+export type { PlaybackMode } from './play-order.ts'
+export type { PreloadOptions } from './preloader.ts'
+export { pickRecordingFile } from './recorder.ts'
+export type { RecordingOptions } from './recorder.ts'
+export type { SessionOptions, SessionState } from './session.ts'
+export type { PlaylistSchedule, SignageOptions, Weekday } from './signage.ts'
+export type { StreamManifest, StreamProtocol, StreamRendition } from './stream-manifest.ts'
+export type { ThumbnailOptions } from './thumbnails.ts'
+export { transcodeMedia } from './transcoder.ts'
+export type { TranscodeFormat, TranscodeOptions, TranscodeQuality } from './transcoder.ts'
@@ -0,0 +1,102 @@
+// Keyboard shortcuts of the player, active while focus is inside it
+
+export type KeyAction =
+  | 'togglePlay'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'frameBackward' // Pauses, then steps one frame
+  | 'frameForward'
+  | 'previousItem'
+  | 'nextItem'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'toggleMute'
+  | 'toggleSubtitles'
+  | 'toggleInfo'
+  | 'toggleFullscreen'
+  | 'togglePictureInPicture'
+  | 'jumpToItem' // Its keys go to items 1, 2, 3… in the order they're listed
+
+// Keys per action as KeyboardEvent.key values, optionally with modifiers: 'k', 'ArrowLeft', 'Shift+ArrowRight',
+// 'Ctrl+m'. The space bar is 'Space' and letters match either case. Listed actions replace their default keys;
+// an empty list turns the action off
+export type Keymap = Partial<Record<KeyAction, string[]>>
+
+export type KeyBinding = {
+  action: KeyAction
+  index: number // Position of the key in the action's list, which jumpToItem uses as the item
+}
+
+export const DEFAULT_KEYMAP: Required<Keymap> = {
+  togglePlay: ['Space', 'k'],
+  seekBackward: ['ArrowLeft', 'j'],
+  seekForward: ['ArrowRight', 'l'],
+  frameBackward: [','],
+  frameForward: ['.'],
+  previousItem: ['ArrowUp', 'Shift+p'],
+  nextItem: ['ArrowDown', 'Shift+n'],
+  volumeUp: ['+', '='],
+  volumeDown: ['-'],
+  toggleMute: ['m'],
+  toggleSubtitles: ['c'],
+  toggleInfo: ['i'],
+  toggleFullscreen: ['f'],
+  togglePictureInPicture: ['p'],
+  jumpToItem: ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0']
+}
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta']
+
+export class KeyBindings {
+  private bindings = new Map<string, KeyBinding>()
+
+  constructor(keymap: Keymap = {}) {
+    // Defaults first, so a key given to another action in the keymap moves over to it
+    const add = (action: KeyAction, keys: string[]) => {
+      keys.forEach((key, index) => {
+        const name = normalizeKey(key)
+        if (name) {
+          this.bindings.set(name, { action, index })
+        } else {
+          console.warn(`Ignoring key "${key}" for ${action}: not a key name`)
+        }
+      })
+    }
+    for (const [action, keys] of Object.entries(DEFAULT_KEYMAP) as [KeyAction, string[]][]) {
+      if (!keymap[action]) add(action, keys)
+    }
+    for (const [action, keys] of Object.entries(keymap) as [KeyAction, string[]][]) {
+      if (action in DEFAULT_KEYMAP) {
+        add(action, keys)
+      } else {
+        console.warn(`Ignoring unknown key action "${action}"`)
+      }
+    }
+  }
+
+  match(e: KeyboardEvent): KeyBinding | null {
+    return this.bindings.get(describeKey(e)) ?? null
+  }
+}
+
+// The event in keymap notation. Shift only counts for named keys and letters: for others it already
+// shows in the character ('+' rather than 'Shift+=')
+export function describeKey(e: KeyboardEvent): string {
+  const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toLowerCase() : e.key
+  const shift = e.shiftKey && (e.key.length > 1 || key !== key.toUpperCase())
+  const modifiers = [e.ctrlKey && 'Ctrl', e.altKey && 'Alt', shift && 'Shift', e.metaKey && 'Meta'].filter(Boolean)
+  return [...modifiers, key].join('+')
+}
+
+// 'shift+ctrl+K' becomes 'Ctrl+Shift+k'; null for an empty key
+function normalizeKey(text: string): string | null {
+  const parts = text.split('+')
+  // A trailing '+' is the plus key itself
+  const key = text.endsWith('+') ? '+' : parts.pop()!
+  if (text.endsWith('+')) parts.splice(-2)
+  if (!key || parts.some(part => !MODIFIERS.some(modifier => modifier.toLowerCase() === part.toLowerCase()))) return null
+
+  const modifiers = MODIFIERS.filter(modifier => parts.some(part => part.toLowerCase() === modifier.toLowerCase()))
+  const name = key === ' ' ? 'Space' : key.length === 1 ? key.toLowerCase() : key
+  return [...modifiers, name].join('+')
+}
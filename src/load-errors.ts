@@ -0,0 +1,57 @@
+export type ErrorHandlingOptions = {
+  timeout?: number // Seconds a single load attempt may take; 0 waits forever (default 15)
+  retries?: number // Further attempts after the first one fails (default 2)
+  retryDelay?: number // Seconds before the first retry, doubling for each one after (default 1)
+  skipFailed?: boolean // Move on to the next playable item when one fails during playback (default true)
+  onError?: (report: ItemLoadError) => void // Called once per item that gave up loading
+}
+
+// What the player knows about an item that could not be loaded
+export type ItemLoadError = {
+  index: number
+  url: string
+  error: Error
+  attempts: number
+}
+
+export const DEFAULT_ERROR_HANDLING = {
+  timeout: 15,
+  retries: 2,
+  retryDelay: 1,
+  skipFailed: true
+}
+
+export class LoadTimeoutError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LoadTimeoutError'
+  }
+}
+
+// Thrown once every attempt at loading an item has failed; the last attempt's error is the cause
+export class MediaLoadError extends Error {
+  readonly url: string
+  readonly attempts: number
+
+  constructor(url: string, attempts: number, cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause })
+    this.name = 'MediaLoadError'
+    this.url = url
+    this.attempts = attempts
+  }
+}
+
+// Rejects with a LoadTimeoutError if the promise hasn't settled in time. The work itself
+// carries on, so callers must ignore its result once they have given up on it.
+export function withTimeout<T>(promise: Promise<T>, seconds: number, message: string): Promise<T> {
+  if (seconds <= 0) return promise
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new LoadTimeoutError(message)), seconds * 1000)
+    promise.then(resolve, reject).finally(() => clearTimeout(timer))
+  })
+}
+
+export function delay(seconds: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, seconds * 1000))
+}
@@ -0,0 +1,100 @@
+import { ALL_FORMATS, BlobSource, Input } from 'mediabunny'
+import { registerBlob } from './media-source.ts'
+import { DEFAULT_IMAGE_DURATION } from './playlist.ts'
+import type { MediaItem, MediaType } from './playlist.ts'
+
+export type LocalFilesResult = {
+  items: MediaItem[]
+  skipped: { name: string, reason: string }[]
+}
+
+// Works out what a file contains from its bytes rather than its name or reported MIME type
+export async function classifyFile(file: File): Promise<MediaType | null> {
+  try {
+    const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS })
+    if (await input.getPrimaryVideoTrack()) return 'video'
+    if (await input.getPrimaryAudioTrack()) return 'audio'
+  } catch {
+    // Not a container mediabunny can read; it may still be an image
+  }
+
+  const url = URL.createObjectURL(file)
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+    return 'image'
+  } catch {
+    return null
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+// Turns local files into playlist items backed by their blobs, in name order
+export async function createLocalItems(files: File[]): Promise<LocalFilesResult> {
+  const result: LocalFilesResult = { items: [], skipped: [] }
+  const sorted = [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+
+  for (const file of sorted) {
+    const type = await classifyFile(file)
+    if (type) {
+      result.items.push({
+        url: registerBlob(file),
+        type,
+        title: file.name.replace(/\.[a-z0-9]+$/i, ''),
+        duration: type === 'image' ? DEFAULT_IMAGE_DURATION : undefined
+      })
+    } else {
+      result.skipped.push({ name: file.name, reason: 'not a recognised media file' })
+    }
+  }
+
+  return result
+}
+
+// Files from a drop, descending into dropped folders
+export async function getDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  // Entries must be taken synchronously, before the drop event's data store is cleared
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter(entry => entry !== null)
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files)
+  }
+
+  const files: File[] = []
+  for (const entry of entries) {
+    files.push(...await readEntry(entry))
+  }
+  return files
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.name.startsWith('.')) return [] // .DS_Store and friends
+  if (isFileEntry(entry)) {
+    return [await new Promise<File>((resolve, reject) => entry.file(resolve, reject))]
+  }
+  if (!isDirectoryEntry(entry)) return []
+
+  // readEntries returns the directory in batches until it comes back empty
+  const reader = entry.createReader()
+  const files: File[] = []
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) break
+    for (const child of batch) {
+      files.push(...await readEntry(child))
+    }
+  }
+  return files
+}
+
+function isFileEntry(entry: FileSystemEntry): entry is FileSystemFileEntry {
+  return entry.isFile
+}
+
+function isDirectoryEntry(entry: FileSystemEntry): entry is FileSystemDirectoryEntry {
+  return entry.isDirectory
+}
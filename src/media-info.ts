@@ -0,0 +1,286 @@
+import { ALL_FORMATS, Input } from 'mediabunny'
+import type { InputAudioTrack, InputVideoTrack } from 'mediabunny'
+import { canPlayRendition } from './adaptive-stream.ts'
+import { createSource } from './media-source.ts'
+import type { MediaItem, MediaType } from './playlist.ts'
+import { loadStreamManifest, splitCodecs } from './stream-manifest.ts'
+
+export type VideoTrackInfo = {
+  codec: string | null
+  codecString: string | null // Full codec parameter string, e.g. 'avc1.64001f'
+  width: number // After rotation
+  height: number
+  rotation: number // Degrees clockwise
+  frameRate: number
+  bitrate: number // Bits per second
+  hdr: boolean
+  canDecode: boolean // Through WebCodecs
+}
+
+export type AudioTrackInfo = {
+  codec: string | null
+  codecString: string | null
+  sampleRate: number
+  channels: number
+  bitrate: number
+  language: string
+  canDecode: boolean
+}
+
+export type MediaInfo = {
+  url: string
+  type: MediaType
+  format: string | null // Container name, or the file type for images
+  mimeType: string | null // Including codecs for videos and audio
+  duration: number | null // Seconds; null for images and live streams
+  width: number
+  height: number
+  videoTracks: VideoTrackInfo[]
+  audioTracks: AudioTrackInfo[]
+  subtitleLanguages: string[]
+  canPlayNatively: boolean // Whether a <video> or <audio> (or <img>) says it can handle the file
+}
+
+export type PlaybackIssue = {
+  severity: 'error' | 'warning' // Errors mean the item will most likely fail to play
+  message: string
+}
+
+// Packets read for the frame rate and bitrate estimates; enough for a stable average without scanning the file
+const STATS_PACKET_COUNT = 120
+
+// Reads container and track details without decoding anything
+export async function inspectMedia(item: MediaItem): Promise<MediaInfo> {
+  if (item.type === 'image') {
+    return inspectImage(item.url)
+  }
+  if (item.type === 'stream') {
+    return inspectStream(item.url)
+  }
+
+  const input = new Input({ source: createSource(item.url), formats: ALL_FORMATS })
+  const [format, mimeType, duration, tracks] = await Promise.all([
+    input.getFormat(),
+    input.getMimeType(),
+    input.computeDuration(),
+    input.getTracks()
+  ])
+
+  const videoTracks = await Promise.all(tracks.filter(track => track.isVideoTrack()).map(inspectVideoTrack))
+  const audioTracks = await Promise.all(tracks.filter(track => track.isAudioTrack()).map(inspectAudioTrack))
+
+  return {
+    url: item.url,
+    type: item.type,
+    format: format.name,
+    mimeType,
+    duration,
+    width: videoTracks[0]?.width ?? 0,
+    height: videoTracks[0]?.height ?? 0,
+    videoTracks,
+    audioTracks,
+    subtitleLanguages: tracks.filter(track => track.type === 'subtitle').map(track => track.languageCode),
+    canPlayNatively: document.createElement(item.type === 'audio' ? 'audio' : 'video').canPlayType(mimeType) !== ''
+  }
+}
+
+// What is likely to go wrong playing this item with the given video backend
+export function getPlaybackIssues(info: MediaInfo, useFrameVideo: boolean): PlaybackIssue[] {
+  const issues: PlaybackIssue[] = []
+  if (info.type === 'image') {
+    if (!info.canPlayNatively) {
+      issues.push({ severity: 'error', message: 'The browser could not decode this image' })
+    }
+    return issues
+  }
+  if (info.type === 'stream') {
+    // Streams play through Media Source Extensions whatever the video backend
+    if (!info.canPlayNatively) {
+      issues.push({ severity: 'error', message: 'This browser cannot play any rendition of this stream' })
+    }
+    return issues
+  }
+
+  const video = info.videoTracks[0]
+  const audio = info.audioTracks[0]
+  if (info.type === 'audio') {
+    // Audio always plays through an element; decoding only matters for the waveform
+    if (!audio) {
+      issues.push({ severity: 'error', message: 'No audio track' })
+    } else if (!info.canPlayNatively) {
+      issues.push({ severity: 'error', message: `This browser reports it cannot play ${info.mimeType}` })
+    } else if (!audio.canDecode) {
+      issues.push({ severity: 'warning', message: `${describeCodec(audio)} audio cannot be decoded, so no waveform can be drawn` })
+    }
+    return issues
+  }
+
+  if (!video) {
+    issues.push({ severity: 'error', message: 'No video track' })
+  } else if (useFrameVideo && !video.canDecode) {
+    issues.push({ severity: 'error', message: `This browser cannot decode ${describeCodec(video)} video` })
+  }
+  if (!useFrameVideo && !info.canPlayNatively) {
+    issues.push({ severity: 'error', message: `This browser reports it cannot play ${info.mimeType}` })
+  }
+  if (useFrameVideo && audio && !audio.canDecode) {
+    issues.push({ severity: 'warning', message: `${describeCodec(audio)} audio cannot be decoded and will be silent` })
+  }
+  return issues
+}
+
+// Label/value rows for showing an inspection result
+export function describeMediaInfo(info: MediaInfo): [string, string][] {
+  const rows: [string, string][] = [
+    ['Format', info.format ?? 'Unknown'],
+    ['MIME type', info.mimeType ?? 'Unknown']
+  ]
+  if (info.duration !== null) {
+    rows.push(['Duration', `${info.duration.toFixed(2)} s`])
+  } else if (info.type === 'stream') {
+    rows.push(['Duration', 'Live'])
+  }
+  if (info.type === 'image') {
+    rows.push(['Resolution', `${info.width}×${info.height}`])
+  }
+
+  info.videoTracks.forEach((track, index) => {
+    const details = [
+      describeCodec(track),
+      `${track.width}×${track.height}`,
+      track.rotation ? `rotated ${track.rotation}°` : '',
+      track.frameRate ? `${track.frameRate.toFixed(2)} fps` : '',
+      formatBitrate(track.bitrate),
+      track.hdr ? 'HDR' : '',
+      track.canDecode ? 'decodable' : 'not decodable'
+    ]
+    rows.push([info.videoTracks.length > 1 ? `Video ${index + 1}` : 'Video', details.filter(Boolean).join(' · ')])
+  })
+
+  info.audioTracks.forEach((track, index) => {
+    const details = [
+      describeCodec(track),
+      `${(track.sampleRate / 1000).toFixed(1)} kHz`,
+      `${track.channels} ch`,
+      formatBitrate(track.bitrate),
+      track.language !== 'und' ? track.language : '',
+      track.canDecode ? 'decodable' : 'not decodable'
+    ]
+    rows.push([info.audioTracks.length > 1 ? `Audio ${index + 1}` : 'Audio', details.filter(Boolean).join(' · ')])
+  })
+
+  if (info.subtitleLanguages.length > 0) {
+    rows.push(['Subtitles', info.subtitleLanguages.join(', ')])
+  }
+  if (info.type !== 'image') {
+    rows.push(['Native playback', info.canPlayNatively ? 'Supported' : 'Not supported'])
+  }
+  return rows
+}
+
+async function inspectVideoTrack(track: InputVideoTrack): Promise<VideoTrackInfo> {
+  const [codecString, stats, hdr, canDecode] = await Promise.all([
+    track.getCodecParameterString(),
+    track.computePacketStats(STATS_PACKET_COUNT),
+    track.hasHighDynamicRange(),
+    track.canDecode()
+  ])
+  return {
+    codec: track.codec,
+    codecString,
+    width: track.displayWidth,
+    height: track.displayHeight,
+    rotation: track.rotation,
+    frameRate: stats.averagePacketRate,
+    bitrate: stats.averageBitrate,
+    hdr,
+    canDecode
+  }
+}
+
+async function inspectAudioTrack(track: InputAudioTrack): Promise<AudioTrackInfo> {
+  const [codecString, stats, canDecode] = await Promise.all([
+    track.getCodecParameterString(),
+    track.computePacketStats(STATS_PACKET_COUNT),
+    track.canDecode()
+  ])
+  return {
+    codec: track.codec,
+    codecString,
+    sampleRate: track.sampleRate,
+    channels: track.numberOfChannels,
+    bitrate: stats.averageBitrate,
+    language: track.languageCode,
+    canDecode
+  }
+}
+
+// A stream's renditions stand in for its tracks; whether they decode is up to Media Source Extensions
+async function inspectStream(url: string): Promise<MediaInfo> {
+  const manifest = await loadStreamManifest(url)
+  const videoTracks = manifest.renditions.filter(rendition => rendition.kind === 'video').map((rendition): VideoTrackInfo => ({
+    codec: rendition.codecs ? splitCodecs(rendition.codecs).video[0]?.split('.')[0] ?? null : null,
+    codecString: rendition.codecs ?? null,
+    width: rendition.width ?? 0,
+    height: rendition.height ?? 0,
+    rotation: 0,
+    frameRate: rendition.frameRate ?? 0,
+    bitrate: rendition.bandwidth,
+    hdr: false,
+    canDecode: canPlayRendition(rendition)
+  }))
+  const largest = manifest.renditions[manifest.renditions.length - 1]
+  const nativeHls = manifest.protocol === 'hls' && document.createElement('video').canPlayType('application/vnd.apple.mpegurl') !== ''
+
+  return {
+    url,
+    type: 'stream',
+    format: manifest.protocol === 'hls' ? 'HLS' : 'DASH',
+    mimeType: manifest.protocol === 'hls' ? 'application/vnd.apple.mpegurl' : 'application/dash+xml',
+    duration: Number.isFinite(manifest.duration) ? manifest.duration : null,
+    width: largest?.width ?? 0,
+    height: largest?.height ?? 0,
+    videoTracks,
+    audioTracks: [],
+    subtitleLanguages: [],
+    canPlayNatively: nativeHls || manifest.renditions.some(canPlayRendition)
+  }
+}
+
+async function inspectImage(url: string): Promise<MediaInfo> {
+  const image = new Image()
+  image.crossOrigin = 'anonymous'
+  image.src = url
+
+  let canPlayNatively = true
+  try {
+    await image.decode()
+  } catch {
+    canPlayNatively = false
+  }
+
+  const extension = new URL(url, location.href).pathname.match(/\.(\w+)$/)?.[1]
+  return {
+    url,
+    type: 'image',
+    format: extension?.toUpperCase() ?? null,
+    mimeType: null,
+    duration: null,
+    width: image.naturalWidth,
+    height: image.naturalHeight,
+    videoTracks: [],
+    audioTracks: [],
+    subtitleLanguages: [],
+    canPlayNatively
+  }
+}
+
+function describeCodec(track: { codec: string | null, codecString: string | null }) {
+  const codec = track.codec?.toUpperCase() ?? 'Unknown'
+  return track.codecString && track.codecString !== track.codec ? `${codec} (${track.codecString})` : codec
+}
+
+function formatBitrate(bitsPerSecond: number) {
+  if (!bitsPerSecond) return ''
+  return bitsPerSecond >= 1e6 ? `${(bitsPerSecond / 1e6).toFixed(1)} Mbps` : `${Math.round(bitsPerSecond / 1000)} kbps`
+}
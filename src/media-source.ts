@@ -0,0 +1,24 @@
+import { BlobSource, UrlSource } from 'mediabunny'
+import type { Source } from 'mediabunny'
+
+// Blobs standing in for playlist URLs (converted uploads). Mediabunny reads them directly rather than
+// through fetch on the object URL; <video> and <img> still use the object URL.
+const blobs = new Map<string, Blob>()
+
+export function registerBlob(blob: Blob): string {
+  const url = URL.createObjectURL(blob)
+  blobs.set(url, blob)
+  return url
+}
+
+export function unregisterBlob(url: string) {
+  if (blobs.delete(url)) {
+    URL.revokeObjectURL(url)
+  }
+}
+
+// Mediabunny source for a playlist URL
+export function createSource(url: string): Source {
+  const blob = blobs.get(url)
+  return blob ? new BlobSource(blob) : new UrlSource(url)
+}
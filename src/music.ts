@@ -0,0 +1,335 @@
+import { Howl, Howler } from 'howler'
+
+export type MusicTrack = {
+  url: string
+  title?: string
+  volume?: number // Gain for this track relative to the others (0-1, default 1)
+}
+
+export type MusicOptions = {
+  tracks?: (string | MusicTrack)[] // Played in order and looped as a whole; a single track loops on its own
+  crossfade?: number // Seconds of overlap between consecutive tracks (default 3)
+  duckByLevel?: boolean // Duck only while the video is actually audible (default true); false always ducks videos
+}
+
+// Current audio level (0-1 RMS) of whatever the music should duck under
+export type AudioLevelSource = () => number
+
+type ActiveTrack = {
+  index: number
+  howl: Howl
+  fade: number // 0-1 gain of this track within a crossfade
+  fadeTarget: number
+}
+
+const DEFAULT_CROSSFADE = 3
+const TICK_INTERVAL = 50 // ms between volume updates
+// Ducking reacts quickly when a video gets loud and recovers slowly, so speech gaps don't pump the music
+const DUCK_ATTACK = 0.15 // Time constant in seconds
+const DUCK_RELEASE = 1
+// Level changes between items
+const LEVEL_RAMP = 0.3
+// RMS level at which the music is fully ducked
+const FULL_DUCK_LEVEL = 0.05
+
+// Plays a list of background tracks with crossfades and ramps its level between items.
+// All volume state lives here and is pushed to Howler on every tick, so nothing depends on
+// reading values back from Howler or its internals.
+export class MusicEngine {
+  readonly tracks: MusicTrack[]
+  private crossfade: number
+  private duckByLevel: boolean
+  private howls = new Map<number, Howl>()
+  private active: ActiveTrack[] = []
+  private currentTrack = 0
+  private _playing = false
+  private muted: boolean
+  private volume = 1 // Master volume on top of the item level
+
+  private level = 0 // Smoothed output level
+  private baseLevel = 0 // Level while nothing ducks the music
+  private duckedLevel = 0 // Level while the ducking source is fully audible
+  private duckSource: AudioLevelSource | null = null
+  private duckAmount = 0 // Smoothed 0-1
+  private tickHandle: number | null = null
+  private lastTick = 0
+
+  onLoad: (() => void) | null = null
+  onLoadError: ((url: string, error: unknown) => void) | null = null
+
+  constructor(options: MusicOptions = {}, muted = false) {
+    this.tracks = (options.tracks ?? []).map(track => typeof track === 'string' ? { url: track } : track)
+    this.crossfade = Math.max(0, options.crossfade ?? DEFAULT_CROSSFADE)
+    this.duckByLevel = options.duckByLevel ?? true
+    this.muted = muted
+
+    if (this.tracks.length > 0) {
+      this.getHowl(0) // Start loading the first track right away
+    }
+  }
+
+  get playing() {
+    return this._playing
+  }
+
+  get crossfadeDuration() {
+    return this.crossfade
+  }
+
+  // Whether ducking should follow a level meter rather than a fixed level
+  get ducksByLevel() {
+    return this.duckByLevel
+  }
+
+  play() {
+    if (this._playing || this.tracks.length === 0) return
+    this._playing = true
+
+    this.resumeContext()
+    if (this.active.length === 0) {
+      this.startTrack(this.currentTrack, 1)
+    } else {
+      this.active.forEach(track => track.howl.play())
+    }
+    this.startTicking()
+  }
+
+  pause() {
+    if (!this._playing) return
+    this._playing = false
+    this.active.forEach(track => track.howl.pause())
+    this.stopTicking()
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted
+    if (!muted) {
+      this.resumeContext() // Unmuting is a user gesture; metered videos play through this context too
+    }
+    this.howls.forEach(howl => howl.mute(muted))
+  }
+
+  setVolume(volume: number) {
+    this.volume = Math.max(0, Math.min(1, volume))
+    this.applyVolumes()
+  }
+
+  // Target level for the current item, ramped to rather than jumped to. With a ducking source
+  // the music drops towards the ducked level while that source is audible.
+  setLevel(level: number, ducking: { source: AudioLevelSource, level: number } | null = null) {
+    this.baseLevel = level
+    this.duckSource = ducking?.source ?? null
+    this.duckedLevel = ducking?.level ?? level
+
+    if (!this._playing) {
+      this.level = level
+      this.duckAmount = 0
+      this.applyVolumes()
+    }
+  }
+
+  // Crossfade to a track by index or URL; URLs not in the track list are added to it
+  selectTrack(track: number | string) {
+    let index = typeof track === 'number' ? track : this.tracks.findIndex(({ url }) => url === track)
+    if (typeof track === 'string' && index === -1) {
+      index = this.tracks.push({ url: track }) - 1
+    }
+    if (index < 0 || index >= this.tracks.length) {
+      console.warn(`Unknown music track: ${track}`)
+      return
+    }
+    if (index === this.currentTrack) return
+
+    this.currentTrack = index
+    if (this._playing) {
+      this.crossfadeTo(index)
+    } else {
+      this.stopAll()
+    }
+  }
+
+  destroy() {
+    this.stopTicking()
+    this.howls.forEach(howl => howl.unload())
+    this.howls.clear()
+    this.active = []
+    this._playing = false
+  }
+
+  // Browsers suspend the shared context until a user gesture
+  private resumeContext() {
+    if (Howler.ctx?.state === 'suspended') {
+      Howler.ctx.resume().catch(error => console.warn('Could not resume audio context:', error))
+    }
+  }
+
+  private getHowl(index: number): Howl {
+    let howl = this.howls.get(index)
+    if (!howl) {
+      const track = this.tracks[index]
+      howl = new Howl({
+        src: [track.url],
+        loop: this.tracks.length === 1,
+        volume: 0,
+        mute: this.muted,
+        preload: true,
+        onload: () => {
+          if (index === 0) this.onLoad?.()
+        },
+        onloaderror: (_, error) => {
+          console.warn(`Music track ${track.url} failed to load:`, error)
+          this.onLoadError?.(track.url, error)
+        }
+      })
+      this.howls.set(index, howl)
+    }
+    return howl
+  }
+
+  private startTrack(index: number, fade: number) {
+    const howl = this.getHowl(index)
+    howl.seek(0)
+    howl.play()
+    this.active.push({ index, howl, fade, fadeTarget: 1 })
+
+    // Load the following track while this one plays
+    if (this.tracks.length > 1) {
+      this.getHowl((index + 1) % this.tracks.length)
+    }
+  }
+
+  private crossfadeTo(index: number) {
+    this.active.forEach(track => {
+      track.fadeTarget = 0
+    })
+    this.startTrack(index, this.crossfade > 0 ? 0 : 1)
+  }
+
+  private stopAll() {
+    this.active.forEach(track => track.howl.stop())
+    this.active = []
+  }
+
+  private startTicking() {
+    if (this.tickHandle !== null) return
+    this.lastTick = performance.now()
+    this.tickHandle = window.setInterval(() => this.tick(), TICK_INTERVAL)
+  }
+
+  private stopTicking() {
+    if (this.tickHandle !== null) {
+      clearInterval(this.tickHandle)
+      this.tickHandle = null
+    }
+  }
+
+  private tick() {
+    const now = performance.now()
+    const elapsed = (now - this.lastTick) / 1000
+    this.lastTick = now
+
+    // Ducking follows the source's level with separate attack and release
+    const wanted = this.duckSource ? Math.min(1, this.duckSource() / FULL_DUCK_LEVEL) : 0
+    this.duckAmount = approach(this.duckAmount, wanted, elapsed, wanted > this.duckAmount ? DUCK_ATTACK : DUCK_RELEASE)
+    const target = this.baseLevel + (this.duckedLevel - this.baseLevel) * this.duckAmount
+    this.level = approach(this.level, target, elapsed, LEVEL_RAMP)
+
+    // Start the next track when the current one is about to end
+    const current = this.active[this.active.length - 1]
+    if (current && this.tracks.length > 1 && current.fadeTarget === 1 && current.howl.state() === 'loaded') {
+      const remaining = current.howl.duration() - (current.howl.seek() as number)
+      if (remaining <= Math.max(this.crossfade, TICK_INTERVAL / 1000 * 2)) {
+        this.currentTrack = (current.index + 1) % this.tracks.length
+        this.crossfadeTo(this.currentTrack)
+      }
+    }
+
+    const fadeStep = this.crossfade > 0 ? elapsed / this.crossfade : 1
+    this.active = this.active.filter(track => {
+      track.fade = track.fade < track.fadeTarget
+        ? Math.min(track.fadeTarget, track.fade + fadeStep)
+        : Math.max(track.fadeTarget, track.fade - fadeStep)
+
+      if (track.fade === 0 && track.fadeTarget === 0) {
+        track.howl.stop()
+        return false
+      }
+      return true
+    })
+
+    this.applyVolumes()
+  }
+
+  private applyVolumes() {
+    this.active.forEach(track => {
+      track.howl.volume(this.volume * this.level * track.fade * (this.tracks[track.index].volume ?? 1))
+    })
+  }
+}
+
+// RMS level of what an analyser currently hears, 0-1
+export function measureLevel(analyser: AnalyserNode): number {
+  const samples = new Float32Array(analyser.fftSize)
+  analyser.getFloatTimeDomainData(samples)
+
+  let sum = 0
+  for (const sample of samples) {
+    sum += sample * sample
+  }
+  return Math.sqrt(sum / samples.length)
+}
+
+// Howler's audio context, which media elements are routed through. Howler only creates it along with
+// the first track, so without music it is set up here, e.g. to record the items' own sound; null where
+// the browser has no Web Audio
+export function getAudioContext(): AudioContext | null {
+  if (!Howler.ctx) Howler.volume() // Sets the context up as a side effect
+  return Howler.ctx ?? null
+}
+
+// Routes a media element through Howler's context so it can be analysed.
+// An element can only ever be connected once, so its nodes are cached per element.
+const elementAnalysers = new WeakMap<HTMLMediaElement, { source: MediaElementAudioSourceNode, analyser: AnalyserNode }>()
+
+export function getElementAnalyser(element: HTMLMediaElement): AnalyserNode | null {
+  const existing = elementAnalysers.get(element)
+  if (existing) return existing.analyser
+
+  const context = Howler.ctx
+  if (!context) return null
+
+  try {
+    const source = context.createMediaElementSource(element)
+    const analyser = context.createAnalyser()
+    analyser.fftSize = 1024
+    source.connect(analyser)
+    analyser.connect(context.destination)
+    elementAnalysers.set(element, { source, analyser })
+    return analyser
+  } catch (error) {
+    console.warn('Could not analyse media element audio:', error)
+    return null
+  }
+}
+
+// Takes a retired element's nodes out of the audio graph. The element stays silent afterwards,
+// as it can't be routed through the context again
+export function releaseElementAnalyser(element: HTMLMediaElement) {
+  const nodes = elementAnalysers.get(element)
+  if (!nodes) return
+  nodes.source.disconnect()
+  nodes.analyser.disconnect()
+  elementAnalysers.delete(element)
+}
+
+// Level of a media element's sound; null (ducking at a fixed level) when it can't be metered
+export function createElementLevelMeter(element: HTMLMediaElement): AudioLevelSource | null {
+  const analyser = getElementAnalyser(element)
+  if (!analyser) return null
+  return () => element.paused ? 0 : measureLevel(analyser)
+}
+
+// Exponential approach towards a target with the given time constant
+function approach(value: number, target: number, elapsed: number, timeConstant: number) {
+  return target + (value - target) * Math.exp(-elapsed / timeConstant)
+}
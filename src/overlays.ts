@@ -0,0 +1,143 @@
+import type { MediaOverlay, OverlayPosition } from './playlist.ts'
+
+const DEFAULT_MARGIN = 0.04
+const DEFAULT_IMAGE_WIDTH = 0.15
+const DEFAULT_FONT = 'system-ui, sans-serif'
+const DEFAULT_FONT_SIZE = 0.05
+const DEFAULT_FONT_WEIGHT = '600'
+const DEFAULT_FADE = 0.5
+const LINE_HEIGHT = 1.25 // Of the font size
+const TEXT_PADDING = 0.4 // Of the font size, inside a text background
+const IMAGE_GAP = 0.5 // Of the font size, between an overlay's image and its text
+
+type OverlayImage = {
+  element: HTMLImageElement
+  ready: Promise<void> // Settles once the image has loaded or failed
+}
+
+// Draws overlays onto a canvas. The player's compositor and the exporter both go through this,
+// so an export shows exactly what viewers saw. Images load in the background; until one has
+// loaded, its overlay is drawn without it.
+export class OverlayRenderer {
+  private images = new Map<string, OverlayImage>()
+
+  // Resolves once every image the overlays use has loaded (or failed to)
+  async load(overlays: MediaOverlay[]) {
+    await Promise.all(overlays.map(overlay => overlay.image ? this.getImage(overlay.image).ready : null))
+  }
+
+  // Draws the overlays that are visible at `time` seconds into an item of the given duration
+  draw(ctx: CanvasRenderingContext2D, overlays: MediaOverlay[], time: number, duration: number) {
+    for (const overlay of overlays) {
+      const alpha = getOverlayAlpha(overlay, time, duration)
+      if (alpha > 0) {
+        this.drawOverlay(ctx, overlay, alpha)
+      }
+    }
+  }
+
+  clear() {
+    this.images.forEach(({ element }) => element.removeAttribute('src'))
+    this.images.clear()
+  }
+
+  private drawOverlay(ctx: CanvasRenderingContext2D, overlay: MediaOverlay, alpha: number) {
+    const { width, height } = ctx.canvas
+    const [vertical, horizontal] = splitPosition(overlay.position ?? 'bottom-left')
+
+    ctx.save()
+    ctx.globalAlpha = alpha
+
+    // Measure the block: the image on top, the text below it
+    const fontSize = (overlay.fontSize ?? DEFAULT_FONT_SIZE) * height
+    ctx.font = `${overlay.fontWeight ?? DEFAULT_FONT_WEIGHT} ${fontSize}px ${overlay.font ?? DEFAULT_FONT}`
+    const lines = overlay.text ? overlay.text.split('\n') : []
+    const padding = overlay.background ? fontSize * TEXT_PADDING : 0
+    const textWidth = lines.length > 0 ? Math.max(...lines.map(line => ctx.measureText(line).width)) + padding * 2 : 0
+    const textHeight = lines.length > 0 ? lines.length * fontSize * LINE_HEIGHT + padding * 2 : 0
+
+    const image = overlay.image ? this.getLoadedImage(overlay.image) : null
+    const imageWidth = image ? (overlay.imageWidth ?? DEFAULT_IMAGE_WIDTH) * width : 0
+    const imageHeight = image ? imageWidth * image.naturalHeight / image.naturalWidth : 0
+    const gap = image && lines.length > 0 ? fontSize * IMAGE_GAP : 0
+
+    const blockWidth = Math.max(imageWidth, textWidth)
+    const blockHeight = imageHeight + gap + textHeight
+    const margin = (overlay.margin ?? DEFAULT_MARGIN) * height
+    const x = { left: margin, center: (width - blockWidth) / 2, right: width - margin - blockWidth }[horizontal]
+    const y = { top: margin, middle: (height - blockHeight) / 2, bottom: height - margin - blockHeight }[vertical]
+    // Lines up a part of the block with the side the overlay is anchored to
+    const alignX = (partWidth: number) => x + (blockWidth - partWidth) * { left: 0, center: 0.5, right: 1 }[horizontal]
+
+    if (image) {
+      ctx.drawImage(image, alignX(imageWidth), y, imageWidth, imageHeight)
+    }
+
+    if (lines.length > 0) {
+      const left = alignX(textWidth)
+      const top = y + imageHeight + gap
+      if (overlay.background) {
+        ctx.fillStyle = overlay.background
+        ctx.fillRect(left, top, textWidth, textHeight)
+      } else {
+        // Keeps text readable over bright media
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.6)'
+        ctx.shadowBlur = fontSize * 0.15
+      }
+
+      ctx.fillStyle = overlay.color ?? '#fff'
+      ctx.textAlign = horizontal
+      ctx.textBaseline = 'middle'
+      const textX = { left: left + padding, center: left + textWidth / 2, right: left + textWidth - padding }[horizontal]
+      lines.forEach((line, index) => {
+        ctx.fillText(line, textX, top + padding + (index + 0.5) * fontSize * LINE_HEIGHT)
+      })
+    }
+
+    ctx.restore()
+  }
+
+  private getImage(url: string): OverlayImage {
+    let image = this.images.get(url)
+    if (!image) {
+      const element = new Image()
+      element.crossOrigin = 'anonymous' // Keeps the export canvas readable
+      element.src = url
+      const ready = element.decode().catch(error => {
+        console.warn(`Overlay image ${url} failed to load:`, error)
+      })
+      image = { element, ready }
+      this.images.set(url, image)
+    }
+    return image
+  }
+
+  private getLoadedImage(url: string): HTMLImageElement | null {
+    const { element } = this.getImage(url)
+    return element.complete && element.naturalWidth > 0 ? element : null
+  }
+}
+
+// 0 while hidden, up to the overlay's opacity while fully shown
+function getOverlayAlpha(overlay: MediaOverlay, time: number, duration: number) {
+  const start = overlay.in ?? 0
+  const end = overlay.out === undefined ? Infinity : overlay.out < 0 ? duration + overlay.out : overlay.out
+  if (time < start || time >= end) return 0
+
+  // Only in and out points that were set fade; an overlay without them is simply there
+  const fade = overlay.fade ?? DEFAULT_FADE
+  let alpha = overlay.opacity ?? 1
+  if (fade > 0 && overlay.in !== undefined) {
+    alpha *= Math.min(1, (time - start) / fade)
+  }
+  if (fade > 0 && overlay.out !== undefined) {
+    alpha *= Math.min(1, (end - time) / fade)
+  }
+  return alpha
+}
+
+function splitPosition(position: OverlayPosition): ['top' | 'middle' | 'bottom', 'left' | 'center' | 'right'] {
+  const vertical = position.startsWith('top') ? 'top' : position.startsWith('bottom') ? 'bottom' : 'middle'
+  const horizontal = position.endsWith('left') ? 'left' : position.endsWith('right') ? 'right' : 'center'
+  return [vertical, horizontal]
+}
@@ -0,0 +1,221 @@
+import type { MediaItem } from './playlist.ts'
+
+// loop: back to the first item after the last; stop: stop after the last; repeat-one: play the
+// current item again; shuffle: every item once in random order, then again in a new order
+export type PlaybackMode = 'loop' | 'stop' | 'repeat-one' | 'shuffle'
+
+export const PLAYBACK_MODES: readonly PlaybackMode[] = ['loop', 'stop', 'repeat-one', 'shuffle']
+
+// Why playback is moving on: the item ended by itself, or it was skipped (or failed to load)
+export type Advance = 'ended' | 'skip'
+
+type NextStep = {
+  item: MediaItem
+  commit: () => void // Consumes the step: takes it off the queue, or out of the shuffle round
+}
+
+// Going back while shuffling doesn't need to reach further than this
+const MAX_HISTORY = 500
+
+// Decides what plays next: whatever is queued up first, then the playback mode. Items are tracked by
+// identity rather than index, so the queue and the history survive the playlist being edited.
+export class PlayOrder {
+  private _mode: PlaybackMode = 'loop'
+  private queue: MediaItem[] = []
+  private history: MediaItem[] = [] // Items in the order they played
+  private position = -1 // Of the current item in history; behind the end after going back
+  private roundPlayed = new Set<MediaItem>() // Items the current shuffle round has played
+  private pick: MediaItem | null = null // Shuffled item that plays next, chosen ahead so it can be preloaded
+  private pickStartsRound = false // Every item has played; the pick opens a new round
+
+  get mode() {
+    return this._mode
+  }
+
+  get upNext(): readonly MediaItem[] {
+    return this.queue
+  }
+
+  // A shuffle round starts from the item on screen
+  setMode(mode: PlaybackMode, current: MediaItem | undefined) {
+    this._mode = mode
+    this.roundPlayed = new Set(current ? [current] : [])
+    this.pick = null
+  }
+
+  enqueue(item: MediaItem) {
+    this.queue.push(item)
+  }
+
+  dequeue(index: number) {
+    this.queue.splice(index, 1)
+  }
+
+  moveQueued(from: number, to: number) {
+    const [item] = this.queue.splice(from, 1)
+    if (item) this.queue.splice(to, 0, item)
+  }
+
+  // A different playlist: nothing queued or played yet
+  reset() {
+    this.queue = []
+    this.history = []
+    this.position = -1
+    this.roundPlayed.clear()
+    this.pick = null
+  }
+
+  // Forgets items that are no longer in the playlist
+  prune(items: readonly MediaItem[]) {
+    const kept = new Set(items)
+    this.queue = this.queue.filter(item => kept.has(item))
+    this.position = this.history.slice(0, this.position + 1).filter(item => kept.has(item)).length - 1
+    this.history = this.history.filter(item => kept.has(item))
+    this.roundPlayed.forEach(item => {
+      if (!kept.has(item)) this.roundPlayed.delete(item)
+    })
+  }
+
+  // An item was swapped for an edited copy of itself; the copy takes its place in the queue, history and round
+  replace(previous: MediaItem, next: MediaItem) {
+    const swap = (item: MediaItem) => item === previous ? next : item
+    this.queue = this.queue.map(swap)
+    this.history = this.history.map(swap)
+    if (this.roundPlayed.delete(previous)) this.roundPlayed.add(next)
+    if (this.pick === previous) this.pick = next
+  }
+
+  // Called whenever an item starts loading, however it was reached
+  played(item: MediaItem) {
+    if (this.history[this.position] !== item) {
+      // Jumping somewhere new drops the way forward after going back
+      this.history.splice(this.position + 1, Infinity, item)
+      if (this.history.length > MAX_HISTORY) {
+        this.history.shift()
+      }
+      this.position = this.history.length - 1
+    }
+    this.roundPlayed.add(item)
+  }
+
+  // Index of the item that would play next, without committing to it; null where playback would stop.
+  // `accept` passes over items that mustn't play, e.g. ones that failed to load
+  peekNext(items: readonly MediaItem[], currentIndex: number, advance: Advance, accept?: (item: MediaItem) => boolean): number | null {
+    const step = this.resolveNext(items, currentIndex, advance, accept ?? (() => true))
+    return step ? indexOrNull(items, step.item) : null
+  }
+
+  // Only the item returned is consumed; anything passed over stays queued or unplayed
+  takeNext(items: readonly MediaItem[], currentIndex: number, advance: Advance, accept?: (item: MediaItem) => boolean): number | null {
+    const step = this.resolveNext(items, currentIndex, advance, accept ?? (() => true))
+    if (!step) return null
+    step.commit()
+    return indexOrNull(items, step.item)
+  }
+
+  // Shuffled playback goes back through what actually played; otherwise back through the playlist
+  takePrevious(items: readonly MediaItem[], currentIndex: number): number | null {
+    if (this._mode === 'shuffle') {
+      for (let position = this.position - 1; position >= 0; position--) {
+        const index = items.indexOf(this.history[position])
+        if (index !== -1) {
+          this.position = position
+          return index
+        }
+      }
+      return null
+    }
+    if (currentIndex > 0) return currentIndex - 1
+    return this._mode === 'stop' || items.length === 0 ? null : items.length - 1
+  }
+
+  // Whether the item ending now completes a pass through the playlist
+  isEndOfRound(items: readonly MediaItem[], currentIndex: number) {
+    if (this.queue.length > 0 || this._mode === 'repeat-one') return false
+    if (this._mode === 'shuffle') return items.every(item => this.roundPlayed.has(item))
+    return currentIndex === items.length - 1
+  }
+
+  private resolveNext(items: readonly MediaItem[], currentIndex: number, advance: Advance, accept: (item: MediaItem) => boolean): NextStep | null {
+    if (items.length === 0) return null
+
+    // Entries for items that have left the playlist are dropped along with the one taken
+    const queueIndex = this.queue.findIndex(item => items.includes(item) && accept(item))
+    if (queueIndex !== -1) {
+      const item = this.queue[queueIndex]
+      const commit = () => {
+        this.queue = this.queue.filter((queued, index) => index > queueIndex || (index < queueIndex && items.includes(queued)))
+      }
+      return { item, commit }
+    }
+
+    const sequential = () => {} // Following the playlist leaves nothing to consume
+    const current = items[currentIndex]
+    switch (this._mode) {
+      case 'repeat-one':
+        if (advance === 'ended' && current && accept(current)) return { item: current, commit: sequential }
+        // Skipping still moves on
+        return this.resolveFollowing(items, currentIndex, true, accept)
+      case 'loop':
+        return this.resolveFollowing(items, currentIndex, true, accept)
+      case 'stop':
+        return this.resolveFollowing(items, currentIndex, false, accept)
+      case 'shuffle':
+        return this.resolveShuffled(items, accept)
+    }
+  }
+
+  // The first acceptable item after the current one in playlist order, wrapping around to the start if allowed
+  private resolveFollowing(items: readonly MediaItem[], currentIndex: number, wrap: boolean, accept: (item: MediaItem) => boolean): NextStep | null {
+    for (let offset = 1; offset <= items.length; offset++) {
+      const index = currentIndex + offset
+      if (index >= items.length && !wrap) return null
+      const item = items[index % items.length]
+      if (accept(item)) return { item, commit: () => {} }
+    }
+    return null
+  }
+
+  private resolveShuffled(items: readonly MediaItem[], accept: (item: MediaItem) => boolean): NextStep | null {
+    // After going back, forward retraces the history before anything new is picked
+    const forward = this.history.findIndex((item, position) => position > this.position && items.includes(item) && accept(item))
+    if (forward !== -1) {
+      return { item: this.history[forward], commit: () => { this.position = forward } }
+    }
+
+    const valid = this.pick !== null && items.includes(this.pick) && accept(this.pick) && (this.pickStartsRound || !this.roundPlayed.has(this.pick))
+    if (!valid) {
+      const playable = items.filter(accept)
+      let candidates = playable.filter(item => !this.roundPlayed.has(item))
+      this.pickStartsRound = candidates.length === 0
+      if (this.pickStartsRound) {
+        // Avoid playing the last item of a round again straight away
+        const current = this.history[this.position]
+        candidates = playable.length > 1 ? playable.filter(item => item !== current) : playable
+      }
+      if (candidates.length === 0) {
+        this.pick = null
+        return null
+      }
+      this.pick = candidates[Math.floor(Math.random() * candidates.length)]
+    }
+
+    const pick = this.pick!
+    return {
+      item: pick,
+      commit: () => {
+        if (this.pickStartsRound) {
+          this.roundPlayed.clear()
+          this.pickStartsRound = false
+        }
+        this.roundPlayed.add(pick)
+        this.pick = null
+      }
+    }
+  }
+}
+
+function indexOrNull(items: readonly MediaItem[], item: MediaItem): number | null {
+  const index = items.indexOf(item)
+  return index === -1 ? null : index
+}
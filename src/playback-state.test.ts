@@ -0,0 +1,75 @@
+import { describe, expect, test, vi } from 'vitest'
+import { PlaybackStateMachine } from './playback-state.ts'
+import type { PlaybackState } from './playback-state.ts'
+
+// A machine that has gone through the given states, reporting its changes from there on
+function machineAt(...path: PlaybackState[]) {
+  const machine = new PlaybackStateMachine()
+  path.forEach(state => machine.transition(state))
+  const changes: [PlaybackState, PlaybackState][] = []
+  machine.onChange = (state, previous) => changes.push([state, previous])
+  return { machine, changes }
+}
+
+describe('PlaybackStateMachine', () => {
+  test('starts idle', () => {
+    const machine = new PlaybackStateMachine()
+    expect(machine.state).toBe('idle')
+    expect(machine.isPlaying).toBe(false)
+    expect(machine.isSwitching).toBe(false)
+  })
+
+  test('moves through a load, play and pause', () => {
+    const { machine, changes } = machineAt()
+    expect(machine.transition('loading')).toBe(true)
+    expect(machine.isSwitching).toBe(true)
+    expect(machine.transition('ready')).toBe(true)
+    expect(machine.transition('playing')).toBe(true)
+    expect(machine.isPlaying).toBe(true)
+    expect(machine.transition('paused')).toBe(true)
+
+    expect(machine.state).toBe('paused')
+    expect(changes).toEqual([['loading', 'idle'], ['ready', 'loading'], ['playing', 'ready'], ['paused', 'playing']])
+  })
+
+  test('refuses invalid moves and stays put', () => {
+    const warn = vi.spyOn(console, 'warn').mockReturnValue()
+    const { machine, changes } = machineAt('loading', 'ready')
+
+    expect(machine.transition('paused')).toBe(false)
+    expect(machine.state).toBe('ready')
+    expect(changes).toEqual([])
+    expect(warn).toHaveBeenCalledWith('Ignoring invalid playback transition ready -> paused')
+    warn.mockRestore()
+  })
+
+  test('refuses to play an item that failed to load', () => {
+    const warn = vi.spyOn(console, 'warn').mockReturnValue()
+    const { machine } = machineAt('loading', 'error')
+
+    expect(machine.transition('playing')).toBe(false)
+    expect(machine.state).toBe('error')
+    warn.mockRestore()
+  })
+
+  test.each<PlaybackState>(['idle', 'loading', 'transitioning'])('can move to %s from any state', state => {
+    for (const path of [[], ['loading', 'error'], ['loading', 'playing'], ['loading', 'ready', 'playing', 'paused']] as PlaybackState[][]) {
+      const { machine } = machineAt(...path)
+      expect(machine.transition(state)).toBe(true)
+      expect(machine.state).toBe(state)
+    }
+  })
+
+  test('reports staying in the same state as valid without a change', () => {
+    const { machine, changes } = machineAt('loading', 'ready', 'playing')
+    expect(machine.transition('playing')).toBe(true)
+    expect(changes).toEqual([])
+  })
+
+  test('is() matches any of the given states', () => {
+    const { machine } = machineAt('transitioning')
+    expect(machine.is('playing', 'transitioning')).toBe(true)
+    expect(machine.is('playing', 'paused')).toBe(false)
+    expect(machine.isSwitching).toBe(true)
+  })
+})
@@ -0,0 +1,53 @@
+// idle: nothing loaded; loading: fetching an item that will wait for play; transitioning: switching
+// items while playback carries on; ready: loaded and waiting at the start; error: the item failed to load
+export type PlaybackState = 'idle' | 'loading' | 'ready' | 'playing' | 'paused' | 'transitioning' | 'error'
+
+// Every state can start a new load or be torn down; beyond that only these moves are valid
+const TRANSITIONS: Record<PlaybackState, readonly PlaybackState[]> = {
+  idle: [],
+  loading: ['ready', 'playing', 'error'],
+  transitioning: ['ready', 'playing', 'error'],
+  ready: ['playing'],
+  playing: ['paused'],
+  paused: ['playing'],
+  error: []
+}
+const ALWAYS_ALLOWED: readonly PlaybackState[] = ['idle', 'loading', 'transitioning']
+
+// Single source of truth for where playback is; invalid moves are refused and logged
+export class PlaybackStateMachine {
+  private _state: PlaybackState = 'idle'
+
+  onChange: ((state: PlaybackState, previous: PlaybackState) => void) | null = null
+
+  get state() {
+    return this._state
+  }
+
+  get isPlaying() {
+    return this._state === 'playing'
+  }
+
+  // An item is being swapped in; media events from the outgoing element must be ignored
+  get isSwitching() {
+    return this._state === 'loading' || this._state === 'transitioning'
+  }
+
+  is(...states: PlaybackState[]) {
+    return states.includes(this._state)
+  }
+
+  transition(state: PlaybackState): boolean {
+    const previous = this._state
+    if (state === previous) return true
+
+    if (!ALWAYS_ALLOWED.includes(state) && !TRANSITIONS[previous].includes(state)) {
+      console.warn(`Ignoring invalid playback transition ${previous} -> ${state}`)
+      return false
+    }
+
+    this._state = state
+    this.onChange?.(state, previous)
+    return true
+  }
+}
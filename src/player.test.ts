@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, expect, test, vi } from 'vitest'
+import { MediabunnyPlayer } from './player.ts'
+import type { ErrorHandlingOptions } from './load-errors.ts'
+import type { MediaItem } from './playlist.ts'
+
+// jsdom neither loads nor plays media, so the tests settle loads themselves by firing the element's
+// events, in whatever order a slow network might deliver them
+
+let player: MediabunnyPlayer | null = null
+// Images are loaded before they are attached, so they're tracked as they get their source
+const created: HTMLImageElement[] = []
+
+beforeEach(() => {
+  vi.stubGlobal('ResizeObserver', class { observe() {} disconnect() {} })
+  vi.stubGlobal('fetch', () => Promise.reject(new Error('Offline')))
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+    return createContextStub(this)
+  })
+  vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue()
+  vi.spyOn(HTMLMediaElement.prototype, 'pause').mockReturnValue()
+  vi.spyOn(HTMLMediaElement.prototype, 'load').mockReturnValue()
+  vi.spyOn(console, 'warn').mockReturnValue()
+  vi.spyOn(console, 'error').mockReturnValue()
+
+  created.length = 0
+  const { set } = Object.getOwnPropertyDescriptor(HTMLImageElement.prototype, 'src')!
+  vi.spyOn(HTMLImageElement.prototype, 'src', 'set').mockImplementation(function (this: HTMLImageElement, src: string) {
+    created.push(this)
+    set!.call(this, src)
+  })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  player?.destroy()
+  player = null
+  document.body.replaceChildren()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+// jsdom can't draw: a 2D context whose drawing calls do nothing
+function createContextStub(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const context = { canvas } as CanvasRenderingContext2D
+  return new Proxy(context, {
+    get: (target, key) => key in target ? Reflect.get(target, key) : () => ({})
+  })
+}
+
+function video(url: string): MediaItem {
+  return { type: 'video', url: `https://example.test/${url}` }
+}
+
+function image(url: string): MediaItem {
+  return { type: 'image', url: `https://example.test/${url}`, duration: 5 }
+}
+
+// Creates the player, recording the items it switches to and the errors it reports
+function createPlayer(playlist: MediaItem[], errorHandling?: ErrorHandlingOptions) {
+  const container = document.createElement('div')
+  document.body.append(container)
+  player = new MediabunnyPlayer(container, { playlist, preload: false, errorHandling })
+
+  const changes: number[] = []
+  const errors: (number | null)[] = []
+  player.on('itemchange', ({ index }) => changes.push(index))
+  player.on('error', ({ index }) => errors.push(index))
+  return { player, changes, errors }
+}
+
+// The newest element of the given kind with the item's URL as its source
+function elementLoading<T extends HTMLElement & { src: string }>(type: new () => T, item: MediaItem): T {
+  const element = [...document.querySelectorAll('*'), ...created].reverse().find(
+    (node): node is T => node instanceof type && node.src === item.url
+  )
+  if (!element) throw new Error(`Nothing is loading ${item.url}`)
+  return element
+}
+
+function loadMetadata(element: HTMLVideoElement, duration = 10) {
+  Object.defineProperty(element, 'duration', { value: duration, configurable: true })
+  element.dispatchEvent(new Event('loadedmetadata'))
+}
+
+// Lets pending loads run up to their next wait on the media
+function settle(ms = 0) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+test('loads the first item', async () => {
+  const items = [video('a.mp4'), video('b.mp4')]
+  const { player, changes } = createPlayer(items)
+  await settle()
+
+  loadMetadata(elementLoading(HTMLVideoElement, items[0]))
+  await settle()
+
+  expect(changes).toEqual([0])
+  expect(player.getCurrentIndex()).toBe(0)
+  expect(player.getDuration()).toBe(10)
+})
+
+test('discards loads superseded by quick item switches', async () => {
+  const items = [video('a.mp4'), video('b.mp4'), video('c.mp4')]
+  const { player, changes } = createPlayer(items)
+  await settle()
+
+  const switches = [player.goTo(1), player.goTo(2)]
+  await settle()
+
+  // All items share one element, so the abandoned loads have handed it over to the last one
+  const element = elementLoading(HTMLVideoElement, items[2])
+  loadMetadata(element, 7)
+  await Promise.all(switches)
+
+  expect(changes).toEqual([2])
+  expect(player.getCurrentIndex()).toBe(2)
+  expect(player.getDuration()).toBe(7)
+})
+
+test('ignores a stale image that finishes loading after the current one', async () => {
+  const items = [image('a.jpg'), image('b.jpg')]
+  const { player, changes } = createPlayer(items)
+  await settle()
+
+  const first = elementLoading(HTMLImageElement, items[0])
+  const switching = player.goTo(1)
+  await settle()
+  const second = elementLoading(HTMLImageElement, items[1])
+
+  second.dispatchEvent(new Event('load'))
+  await switching
+  first.dispatchEvent(new Event('load'))
+  await settle()
+
+  expect(changes).toEqual([1])
+  expect(player.getCurrentIndex()).toBe(1)
+  expect(second.isConnected).toBe(true)
+  expect(first.isConnected).toBe(false)
+})
+
+test('ignores a stale image that fails to load', async () => {
+  const items = [image('a.jpg'), image('b.jpg')]
+  const { player, changes, errors } = createPlayer(items, { retries: 0 })
+  await settle()
+
+  const first = elementLoading(HTMLImageElement, items[0])
+  const switching = player.goTo(1)
+  await settle()
+
+  first.dispatchEvent(new Event('error'))
+  elementLoading(HTMLImageElement, items[1]).dispatchEvent(new Event('load'))
+  await switching
+
+  expect(changes).toEqual([1])
+  expect(errors).toEqual([])
+})
+
+test('stops retrying an item once another one is switched to', async () => {
+  const items = [video('a.mp4'), video('b.mp4')]
+  const { player, changes, errors } = createPlayer(items, { retries: 2, retryDelay: 0.02 })
+  await settle()
+
+  elementLoading(HTMLVideoElement, items[0]).dispatchEvent(new Event('error'))
+  await settle()
+  const switching = player.goTo(1)
+  await settle()
+  const element = elementLoading(HTMLVideoElement, items[1])
+
+  // The retry is due meanwhile, and must not take the element back
+  await settle(50)
+  expect(element.src).toBe(items[1].url)
+
+  loadMetadata(element)
+  await switching
+  await settle()
+
+  expect(changes).toEqual([1])
+  expect(errors).toEqual([])
+})
+
+test('retries an item that timed out and ignores the first attempt', async () => {
+  vi.useFakeTimers()
+  const items = [image('a.jpg'), image('b.jpg')]
+  const { player, changes, errors } = createPlayer(items, { timeout: 1, retries: 1, retryDelay: 0.5 })
+  await vi.advanceTimersByTimeAsync(0)
+
+  const firstAttempt = elementLoading(HTMLImageElement, items[0])
+  await vi.advanceTimersByTimeAsync(2000)
+  const retry = elementLoading(HTMLImageElement, items[0])
+  expect(retry).not.toBe(firstAttempt)
+
+  // The timed out attempt finishes late, after the retry has taken over
+  firstAttempt.dispatchEvent(new Event('load'))
+  await vi.advanceTimersByTimeAsync(0)
+  expect(changes).toEqual([])
+
+  retry.dispatchEvent(new Event('load'))
+  await vi.advanceTimersByTimeAsync(0)
+
+  expect(changes).toEqual([0])
+  expect(errors).toEqual([])
+  expect(retry.isConnected).toBe(true)
+  expect(firstAttempt.isConnected).toBe(false)
+  expect(player.getCurrentIndex()).toBe(0)
+})
+
+test('keeps a playlist loaded while an earlier manifest was still downloading', async () => {
+  let respond!: (response: Response) => void
+  const manifest = new Promise<Response>(resolve => respond = resolve)
+  vi.stubGlobal('fetch', (url: string) => url.endsWith('.json') ? manifest : Promise.reject(new Error('Offline')))
+  const { player, changes } = createPlayer([])
+  const loaded: string[] = []
+  player.on('itemchange', ({ item }) => loaded.push(item.url))
+
+  const slow = player.loadPlaylist('https://example.test/slow.json')
+  const items = [video('b.mp4')]
+  const fast = player.loadPlaylist(items)
+  await settle()
+  loadMetadata(elementLoading(HTMLVideoElement, items[0]))
+  await fast
+
+  const stale = video('a.mp4')
+  respond(new Response(JSON.stringify({ items: [stale] })))
+  await slow
+  await settle()
+
+  expect(changes).toEqual([0])
+  expect(loaded).toEqual([items[0].url])
+  expect([...document.querySelectorAll('video')].some(element => element.src === stale.url)).toBe(false)
+})
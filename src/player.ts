@@ -0,0 +1,3349 @@
+import { Howler } from 'howler'
+import { AdaptiveStream, describeRendition } from './adaptive-stream.ts'
+import type { StreamQuality } from './adaptive-stream.ts'
+import { AudioVisualizer } from './audio-visualizer.ts'
+import { Compositor, getTransitionOverlap, resolveKenBurns } from './compositor.ts'
+import type { CompositorLayer } from './compositor.ts'
+import { exportSlideshow } from './exporter.ts'
+import type { ExportFormat, ExportOptions } from './exporter.ts'
+import { Emitter } from './emitter.ts'
+import { FrameVideo } from './frame-video.ts'
+import { KeyBindings } from './keymap.ts'
+import type { KeyBinding, Keymap } from './keymap.ts'
+import { DEFAULT_ERROR_HANDLING, MediaLoadError, delay, withTimeout } from './load-errors.ts'
+import type { ErrorHandlingOptions, ItemLoadError } from './load-errors.ts'
+import { createLocalItems, getDroppedFiles } from './local-files.ts'
+import { describeMediaInfo, getPlaybackIssues, inspectMedia } from './media-info.ts'
+import type { MediaInfo } from './media-info.ts'
+import { registerBlob, unregisterBlob } from './media-source.ts'
+import { MusicEngine, createElementLevelMeter, getAudioContext, getElementAnalyser, releaseElementAnalyser } from './music.ts'
+import type { MusicOptions } from './music.ts'
+import { OverlayRenderer } from './overlays.ts'
+import { PLAYBACK_MODES, PlayOrder } from './play-order.ts'
+import type { PlaybackMode } from './play-order.ts'
+import { PlaybackStateMachine } from './playback-state.ts'
+import type { PlaybackState } from './playback-state.ts'
+import { MediaPreloader, releaseMedia } from './preloader.ts'
+import type { PreloadOptions } from './preloader.ts'
+import { DEFAULT_IMAGE_DURATION, getMediaTitle, loadPlaylistSource } from './playlist.ts'
+import type { FitMode, MediaItem, MediaOverlay, MediaType, PlaylistSource } from './playlist.ts'
+import { LiveRecorder, pickRecordingFile } from './recorder.ts'
+import type { RecordingOptions } from './recorder.ts'
+import { DEFAULT_SESSION_KEY, SESSION_VERSION, findResumeIndex, loadSession, saveSession } from './session.ts'
+import type { SessionOptions, SessionState } from './session.ts'
+import { PlaybackWatchdog, checkSchedule, collectMediaUrls, findActiveSchedule, registerSignageWorker, syncMediaCache } from './signage.ts'
+import type { SignageOptions } from './signage.ts'
+import { NativeHlsRequiredError } from './stream-manifest.ts'
+import type { StreamRendition } from './stream-manifest.ts'
+import { formatCueHtml, getInBandTracks, listEmbeddedSubtitleLanguages, loadSubtitleFile } from './subtitles.ts'
+import type { SubtitleTrack } from './subtitles.ts'
+import { ThumbnailCache } from './thumbnails.ts'
+import type { ThumbnailOptions } from './thumbnails.ts'
+import { TRANSCODE_QUALITIES, transcodeMedia } from './transcoder.ts'
+import type { TranscodeOptions, TranscodeQuality } from './transcoder.ts'
+import { buildTimeline, locateTime, probeVideoDuration, resolveTiming, toItemTime, toMediaTime } from './timeline.ts'
+import type { ItemTiming, Timeline } from './timeline.ts'
+
+// Seconds between session saves during playback; pauses, switches and page hides save right away
+const SESSION_SAVE_INTERVAL = 5
+// Positions closer to the start than this aren't worth offering to resume
+const MIN_RESUME_TIME = 1
+// Signage defaults: seconds between schedule checks and without progress before recovering, minutes between cache refreshes
+const SCHEDULE_CHECK_INTERVAL = 30
+const DEFAULT_STALL_TIMEOUT = 15
+const DEFAULT_REFRESH_INTERVAL = 60
+// Keyboard steps: seconds per seek, volume per press, and the frame rate assumed when an item's is unknown
+const SEEK_STEP = 10
+const VOLUME_STEP = 0.1
+const DEFAULT_FRAME_RATE = 30
+// Elements that take typed keys for themselves
+const TEXT_ENTRY = 'input:not([type="range"]), textarea, select, [contenteditable]'
+
+const MEDIA_ICONS: Record<MediaType, string> = { video: '🎬', image: '🖼', audio: '🎵', stream: '📡' }
+
+const PLAYBACK_MODE_LABELS: Record<PlaybackMode, { icon: string, title: string }> = {
+  loop: { icon: '🔁', title: 'Loop playlist' },
+  stop: { icon: '⇥', title: 'Stop at the end' },
+  'repeat-one': { icon: '🔂', title: 'Repeat one' },
+  shuffle: { icon: '🔀', title: 'Shuffle' }
+}
+
+// Silent looping video played on first interaction to keep Safari's autoplay permission alive
+const MASTER_VIDEO_URL = 'https://pub-bc00aeb1aeab4b7480c2d94365bb62a9.r2.dev/blank.mp4'
+
+type VideoMedia = HTMLVideoElement | FrameVideo
+type MediaElement = VideoMedia | HTMLImageElement
+
+// 'element' plays videos through a <video> element, 'mediabunny' decodes them frame-accurately onto a canvas
+export type VideoBackend = 'element' | 'mediabunny'
+
+// 'item' shows progress within the current item, 'playlist' across the whole show
+export type TimelineMode = 'item' | 'playlist'
+
+export type PlayerOptions = {
+  playlist?: PlaylistSource // Manifest URL, inline manifest or items
+  videoBackend?: VideoBackend // Defaults to 'element'
+  preload?: PreloadOptions | false // Background loading of neighbouring items; false disables it
+  timeline?: TimelineMode // Defaults to 'item'
+  thumbnails?: ThumbnailOptions
+  music?: MusicOptions // Background tracks; none by default
+  errorHandling?: ErrorHandlingOptions // Load timeouts, retries and skipping of broken items
+  inspector?: boolean // Media info panel, plus an up-front check of every item for browser support
+  transcode?: Pick<TranscodeOptions, 'format' | 'quality'> | boolean // Offer in-browser conversion of videos this browser can't play (off by default)
+  editable?: boolean // Adding local files by drop or file picker, and reordering, removing and retiming items in the playlist
+  persist?: SessionOptions | boolean // Remember the playlist, position, mute state and volume across reloads (off by default)
+  overlays?: MediaOverlay[] // Titles, lower thirds or watermarks over every item, under the item's own overlays
+  playbackMode?: PlaybackMode // What follows the current item; defaults to 'loop'
+  signage?: SignageOptions | boolean // Unattended playback: scheduled playlists, offline caching and stall recovery (off by default)
+  keymap?: Keymap | false // Keyboard shortcuts while focus is in the player, over the defaults; false turns them off
+  fit?: FitMode // How items fill the frame, unless they set their own; defaults to 'contain'
+}
+
+export type PlayerState = PlaybackState
+
+export type PlayerEvents = {
+  itemchange: { index: number, item: MediaItem } // A new item finished loading
+  timeupdate: { index: number, currentTime: number, duration: number } // Times within the current item
+  ended: { index: number, item: MediaItem } // An item played to its end (or into the next item's transition)
+  playlistend: { count: number } // The last item ended, or when shuffling every item has played
+  error: { error: Error, index: number | null }
+  statechange: { state: PlayerState, previous: PlayerState }
+  qualitychange: { index: number, rendition: StreamRendition, auto: boolean } // A stream moved to another rendition
+}
+
+export class MediabunnyPlayer extends Emitter<PlayerEvents> {
+  private container!: HTMLElement
+  private videoContainer!: HTMLElement
+  private mediaSources!: HTMLElement // Hidden holder for the elements the compositor draws from
+  private compositor!: Compositor
+  private playButton!: HTMLButtonElement
+  private muteButton!: HTMLButtonElement
+  private progressBar!: HTMLInputElement
+  private timelineMarkers!: HTMLElement
+  private scrubPreview!: HTMLElement
+  private scrubPreviewCanvas!: HTMLCanvasElement
+  private scrubPreviewTime!: HTMLElement
+  private timeDisplay!: HTMLDivElement
+  private statusDisplay!: HTMLDivElement
+  private subtitleOverlay!: HTMLElement
+  private ccButton!: HTMLButtonElement
+  private subtitleSelect!: HTMLSelectElement
+  private qualitySelect!: HTMLSelectElement
+  private playlistElement!: HTMLElement
+  private upNextElement!: HTMLElement
+  private modeButton!: HTMLButtonElement
+  private exportPanel!: HTMLElement
+  private exportStartButton!: HTMLButtonElement
+  private exportProgress!: HTMLProgressElement
+  private exportDownload!: HTMLAnchorElement
+  private recordButton: HTMLButtonElement | null = null // Only where the browser can record
+  private recordTime: HTMLElement | null = null
+  private recordDownload: HTMLAnchorElement | null = null
+  private infoPanel: HTMLElement | null = null // Only with the inspector option
+  
+  private playlist: MediaItem[] = []
+  private currentIndex = 0
+  private playback = new PlaybackStateMachine()
+  private loadToken = 0 // Incremented per item load; a load that no longer holds the latest token gives up
+  private playlistLoadToken = 0 // Likewise per playlist load, so a slow manifest can't replace a newer playlist
+  private cancelPendingLoad: (() => void) | null = null // Detaches a <video> load still waiting for metadata
+  private stream: AdaptiveStream | null = null // Feeds the persistent video while a stream item is loaded
+  private isMuted = true // Start muted by default for better Safari compatibility
+  private hasUserInteracted = false // Track if user has interacted (for master video)
+  private isMobile = false // Track if device is mobile
+  private currentTime = 0 // Item time: from the in point, at the item's speed, including any hold
+  private duration = 0
+  private timing: ItemTiming = { start: 0, end: 0, rate: 1, hold: 0, duration: 0 } // Of the current item
+  private holding = false // A video has reached its out point and its last frame is being held
+  private currentMedia: MediaElement | null = null
+  private timelineMode: TimelineMode = 'item'
+  private timeline: Timeline = { segments: [], totalDuration: 0 }
+  private itemDurations: (number | undefined)[] = [] // Natural source durations per playlist item, filled in as videos are probed
+  private persistentVideo: HTMLVideoElement | null = null // Single reusable video element
+  private videoBackend: VideoBackend = 'element'
+  private frameVideo: FrameVideo | null = null // Canvas renderer used by the 'mediabunny' backend
+  private preloader: MediaPreloader | null = null
+  private thumbnails!: ThumbnailCache
+  private scrubPosition: number | null = null // Hovered position on the progress bar (0-1), null when not hovering
+  private isRenderingScrub = false
+  private subtitleTracks: SubtitleTrack[] = [] // Tracks available for the current item
+  private subtitleIndex = 0 // Selected entry in subtitleTracks
+  private subtitlesEnabled = false // Stays on across item switches once the user turns it on
+  private subtitleLanguage: string | null = null // Language the user picked last, preferred on later items
+  private subtitleText: string | null = null // Cue text currently in the overlay
+  private subtitleLoadToken = 0 // Discards subtitle loads for items that are no longer current
+  private currentMediaEventListeners: { [key: string]: EventListener } = {}
+  private imageTimer: number | null = null
+  private imageStartTime: number = 0
+  private music!: MusicEngine
+  private musicVolumes = { video: 0.025, image: 0.25, audio: 0.025, stream: 0.025 } // Music level under videos, streams and audio (when ducked) and images
+  private masterVideo: HTMLVideoElement | null = null // Single master video for Safari autoplay context
+  private exportAbort: AbortController | null = null // Set while an export is running
+  private exportUrl: string | null = null // Object URL of the last finished export
+  private recorder: LiveRecorder | null = null // Set while recording
+  private recordUrl: string | null = null // Object URL of the last recording kept in memory
+  private volume = 1 // Master volume applied to videos and music
+  private listenerAbort = new AbortController() // Detaches every DOM listener the player adds on destroy()
+  private destroyed = false
+  private errorHandling: Required<Omit<ErrorHandlingOptions, 'onError'>> = DEFAULT_ERROR_HANDLING
+  private onItemError: ((report: ItemLoadError) => void) | null = null
+  private failedItems = new Map<number, ItemLoadError>() // Items that gave up loading, by playlist index
+  private inspector = false
+  private mediaInfo = new Map<string, Promise<MediaInfo>>() // Inspection results by URL
+  private inspectedIndex: number | null = null // Item shown in the info panel; null follows the current item
+  private transcode: Pick<TranscodeOptions, 'format' | 'quality'> | null = null
+  private conversions = new Map<MediaItem, { abort: AbortController, progress: number }>() // Running conversions
+  private convertedUrls = new Map<string, string>() // Original URL to the object URL of its converted copy
+  private editable = false
+  private localUrls = new Set<string>() // Object URLs of added local files, released once their items are gone
+  private draggedIndex: number | null = null // Playlist row being dragged to a new position
+  private draggedQueueIndex: number | null = null // Up next row being dragged to a new position
+  private playOrder = new PlayOrder() // Playback mode, up next queue and play history
+  private stoppedAtEnd = false // Playback reached the end in 'stop' mode; playing again restarts the item
+  private session: Required<SessionOptions> | null = null // Set when persisting
+  private pendingResume: SessionState | null = null // Saved session waiting on the resume prompt; nothing is saved meanwhile
+  private lastSessionSave = 0
+  private resumePrompt: HTMLElement | null = null
+  private overlayRenderer = new OverlayRenderer()
+  private audioVisualizer = new AudioVisualizer() // Display of audio items, which play through the persistent video
+  private globalOverlays: MediaOverlay[] = [] // From the player options
+  private playlistOverlays: MediaOverlay[] = [] // From the playlist manifest
+  private signage: Required<SignageOptions> | null = null // Set in signage mode
+  private signageFallback: PlaylistSource | undefined // The playlist option, played when no schedule entry applies
+  private activeSchedule: number | null = null // Schedule entry playing, -1 for the fallback; null until one has loaded
+  private signageTimers: number[] = []
+  private watchdog: PlaybackWatchdog | null = null
+  private stalledItem: MediaItem | null = null // Item the watchdog last restarted; stalling again skips it
+  private cacheSyncing = false
+  private keyBindings: KeyBindings | null = null // Null when keyboard shortcuts are off
+  private fit: FitMode = 'contain'
+  private stageObserver: ResizeObserver | null = null // Sizes the compositor canvas to the frame
+  private fullscreenButton: HTMLButtonElement | null = null // Only where the browser allows fullscreen
+  private pipButton: HTMLButtonElement | null = null // Only where the browser and video backend allow picture-in-picture
+
+  constructor(container: HTMLElement, options: PlayerOptions = {}) {
+    super()
+    this.container = container
+    this.playback.onChange = (state, previous) => {
+      this.updatePlayButton()
+      if (state === 'playing' && this.pendingResume) {
+        this.dismissResumePrompt() // Playing something else answers the prompt
+      }
+      this.saveSession()
+      this.emit('statechange', { state, previous })
+    }
+    this.videoBackend = options.videoBackend ?? 'element'
+    this.timelineMode = options.timeline ?? 'item'
+    this.thumbnails = new ThumbnailCache(options.thumbnails)
+    const { onError, ...errorHandling } = options.errorHandling ?? {}
+    this.errorHandling = { ...DEFAULT_ERROR_HANDLING, ...errorHandling }
+    this.onItemError = onError ?? null
+    this.inspector = options.inspector ?? false
+    this.editable = options.editable ?? false
+    this.globalOverlays = options.overlays ?? []
+    this.fit = options.fit ?? 'contain'
+    this.playOrder.setMode(options.playbackMode ?? 'loop', undefined)
+    if (options.keymap !== false) {
+      this.keyBindings = new KeyBindings(options.keymap)
+    }
+    if (options.transcode) {
+      this.transcode = options.transcode === true ? {} : options.transcode
+    }
+    if (options.preload !== false) {
+      this.preloader = new MediaPreloader(options.preload, this.videoBackend === 'mediabunny')
+    }
+    if (options.signage) {
+      const {
+        schedule = [],
+        serviceWorker = `${import.meta.env.BASE_URL}signage-sw.js`,
+        stallTimeout = DEFAULT_STALL_TIMEOUT,
+        refreshInterval = DEFAULT_REFRESH_INTERVAL
+      } = options.signage === true ? {} : options.signage
+      this.signage = { schedule: checkSchedule(schedule), serviceWorker, stallTimeout, refreshInterval }
+    }
+    // The schedule decides what a signage screen plays, not the last session
+    if (options.persist && !this.signage) {
+      const { key = DEFAULT_SESSION_KEY, resumePrompt = true } = options.persist === true ? {} : options.persist
+      this.session = { key, resumePrompt }
+    }
+    const saved = this.session ? loadSession(this.session.key) : null
+
+    this.detectMobile()
+    if (saved) {
+      this.isMuted = saved.muted || this.isMobile // Mobile still needs a tap before it may play sound
+    }
+    this.setupUI()
+    this.setupEventListeners()
+    this.setupBackgroundMusic(options.music ?? {})
+    this.setupMasterVideo()
+    this.setupPersistentVideo()
+    this.setupFrameVideo()
+    if (this.signage) {
+      this.startSignage(options.playlist)
+    } else if (saved) {
+      this.setVolume(saved.volume)
+      this.restoreSession(saved, options.playlist)
+    } else if (options.playlist) {
+      this.loadPlaylist(options.playlist) // Loads the first item without auto-playing
+    }
+  }
+
+  async play() {
+    if (!this.isPlaying) await this.togglePlay()
+  }
+
+  async pause() {
+    if (this.isPlaying) await this.togglePlay()
+  }
+
+  private get isPlaying() {
+    return this.playback.isPlaying
+  }
+
+  // Playing, or carrying playback over into the next item
+  private get isPlaybackActive() {
+    return this.playback.is('playing', 'transitioning')
+  }
+
+  // Seeks within the current item, in seconds
+  seek(time: number) {
+    // Live streams stay at the live edge
+    if (!this.currentMedia || this.duration === Infinity) return
+    time = Math.max(0, Math.min(time, this.duration))
+
+    const video = isVideoMedia(this.currentMedia) ? this.currentMedia : null
+    const holdStart = this.duration - this.timing.hold
+    if (video && (time < holdStart || this.timing.hold === 0)) {
+      if (this.holding) {
+        this.leaveHold(video)
+      }
+      video.currentTime = toMediaTime(this.timing, time)
+    } else if (video && !this.holding) {
+      video.currentTime = this.timing.end
+      this.enterHold(video, time)
+    } else {
+      // For images (and held frames), seeking changes the display time
+      this.currentTime = time
+      this.imageStartTime = Date.now() - (this.currentTime * 1000)
+      this.updateProgress()
+      this.updateTimeDisplay()
+    }
+  }
+
+  // Pauses and moves one frame forward (1) or back (-1)
+  async stepFrame(direction: 1 | -1) {
+    const item = this.playlist[this.currentIndex]
+    if (!this.currentMedia || !isVideoMedia(this.currentMedia) || item?.type === 'audio' || this.duration === Infinity) return
+    await this.pause()
+
+    const index = this.currentIndex
+    const frameRate = this.stream?.currentRendition?.frameRate
+      || (await this.inspectItem(index).catch(() => null))?.videoTracks[0]?.frameRate
+      || DEFAULT_FRAME_RATE
+    if (index !== this.currentIndex) return
+    // Item time runs at the item's speed
+    this.seek(this.currentTime + direction / (frameRate * this.timing.rate))
+  }
+
+  getFit(): FitMode {
+    return this.fit
+  }
+
+  // Items with a fit of their own keep it
+  setFit(fit: FitMode) {
+    this.fit = fit
+    const item = this.playlist[this.currentIndex]
+    if (item) this.compositor.updateLayer({ fit: item.fit ?? fit })
+  }
+
+  // Shows the frame (media, overlays and subtitles) on the whole screen, or leaves fullscreen
+  async toggleFullscreen() {
+    const stage = this.container.querySelector('.video-container') as HTMLElement
+    try {
+      if (document.fullscreenElement === stage) {
+        await document.exitFullscreen()
+      } else {
+        await stage.requestFullscreen()
+      }
+    } catch (error) {
+      this.updateStatus(`Fullscreen unavailable: ${toError(error).message}`)
+    }
+  }
+
+  // Video items only, with the 'element' backend: the browser's window shows the video without overlays
+  async togglePictureInPicture() {
+    const video = this.persistentVideo
+    try {
+      if (document.pictureInPictureElement) {
+        await document.exitPictureInPicture()
+      } else if (video && this.canPictureInPicture()) {
+        await video.requestPictureInPicture()
+      }
+    } catch (error) {
+      this.updateStatus(`Picture-in-picture unavailable: ${toError(error).message}`)
+    }
+  }
+
+  // Seeks on the playlist-wide timeline, switching items if needed
+  seekPlaylist(time: number) {
+    this.seekToGlobalTime(time)
+  }
+
+  next() {
+    this.goToNextMedia(this.isPlaybackActive)
+  }
+
+  previous() {
+    this.goToPreviousMedia(this.isPlaybackActive)
+  }
+
+  async goTo(index: number) {
+    if (!Number.isInteger(index) || index < 0 || index >= this.playlist.length) {
+      throw new RangeError(`No playlist item at index ${index}`)
+    }
+    await this.switchToMedia(index, this.isPlaybackActive)
+  }
+
+  getPlaybackMode(): PlaybackMode {
+    return this.playOrder.mode
+  }
+
+  setPlaybackMode(mode: PlaybackMode) {
+    if (!PLAYBACK_MODES.includes(mode)) {
+      throw new RangeError(`Unknown playback mode '${mode}'`)
+    }
+    this.playOrder.setMode(mode, this.playlist[this.currentIndex])
+    this.updateModeButton()
+    this.updateUpcoming()
+  }
+
+  // Items queued to play next, in order; the playlist itself stays as it is
+  getQueue(): MediaItem[] {
+    return [...this.playOrder.upNext]
+  }
+
+  enqueue(index: number) {
+    const item = this.playlist[index]
+    if (!item) {
+      throw new RangeError(`No playlist item at index ${index}`)
+    }
+    this.playOrder.enqueue(item)
+    this.updateUpcoming()
+    this.updateStatus(`Up next: "${getMediaTitle(item, index)}"`)
+  }
+
+  dequeue(queueIndex: number) {
+    this.playOrder.dequeue(queueIndex)
+    this.updateUpcoming()
+  }
+
+  moveQueued(from: number, to: number) {
+    const count = this.playOrder.upNext.length
+    if (from < 0 || from >= count || to < 0 || to >= count || from === to) return
+    this.playOrder.moveQueued(from, to)
+    this.updateUpcoming()
+  }
+
+  // Master volume (0-1) for videos and background music
+  setVolume(volume: number) {
+    this.volume = Math.max(0, Math.min(1, volume))
+    if (this.persistentVideo) this.persistentVideo.volume = this.volume
+    if (this.frameVideo) this.frameVideo.volume = this.volume
+    this.music.setVolume(this.volume)
+    this.saveSession()
+  }
+
+  async setMuted(muted: boolean) {
+    if (muted !== this.isMuted) await this.toggleMute()
+  }
+
+  getState(): PlayerState {
+    return this.playback.state
+  }
+
+  getCurrentIndex() {
+    return this.currentIndex
+  }
+
+  getCurrentTime() {
+    return this.currentTime
+  }
+
+  getDuration() {
+    return this.duration
+  }
+
+  getPlaylist(): readonly MediaItem[] {
+    return this.playlist
+  }
+
+  // Renditions of the current stream item, by increasing bandwidth; empty for other items
+  getStreamRenditions(): readonly StreamRendition[] {
+    return this.stream?.renditions ?? []
+  }
+
+  // Locks the current stream to a rendition (an index into getStreamRenditions()), or lets it adapt again
+  setStreamQuality(quality: StreamQuality) {
+    this.stream?.setQuality(quality)
+    this.updateQualitySelect()
+  }
+
+  // Items in the current playlist that could not be loaded
+  getLoadErrors(): ItemLoadError[] {
+    return Array.from(this.failedItems.values())
+  }
+
+  // Container and track details of a playlist item, read with mediabunny
+  inspectItem(index: number): Promise<MediaInfo> {
+    const item = this.playlist[index]
+    if (!item) {
+      return Promise.reject(new RangeError(`No playlist item at index ${index}`))
+    }
+
+    let info = this.mediaInfo.get(item.url)
+    if (!info) {
+      info = inspectMedia(item)
+      info.catch(() => this.mediaInfo.delete(item.url)) // Allow another try later
+      this.mediaInfo.set(item.url, info)
+    }
+    return info
+  }
+
+  // Stops playback and releases everything the player created: listeners, media elements, decoders and the UI
+  destroy() {
+    if (this.destroyed) return
+    this.destroyed = true
+
+    this.loadToken++ // Abandon any load in flight
+    this.cancelPendingLoad?.()
+    this.stopCurrentMedia()
+    this.listenerAbort.abort()
+    this.exportAbort?.abort()
+    if (this.exportUrl) {
+      URL.revokeObjectURL(this.exportUrl)
+    }
+    this.recorder?.cancel()
+    this.recorder = null
+    if (this.recordUrl) {
+      URL.revokeObjectURL(this.recordUrl)
+    }
+    this.signageTimers.forEach(timer => clearInterval(timer))
+    this.signageTimers = []
+    this.watchdog?.stop()
+    this.watchdog = null
+    this.conversions.forEach(conversion => conversion.abort.abort())
+    this.convertedUrls.forEach(url => unregisterBlob(url))
+    this.convertedUrls.clear()
+    this.localUrls.forEach(url => unregisterBlob(url))
+    this.localUrls.clear()
+
+    this.stageObserver?.disconnect()
+    this.stageObserver = null
+    if (document.fullscreenElement && this.container.contains(document.fullscreenElement)) {
+      document.exitFullscreen().catch(() => {})
+    }
+    if (this.persistentVideo && document.pictureInPictureElement === this.persistentVideo) {
+      document.exitPictureInPicture().catch(() => {})
+    }
+    this.compositor.stop()
+    this.compositor.onFrame = null
+    this.compositor.drawOverlay = null
+    this.overlayRenderer.clear()
+    this.music.destroy()
+    this.preloader?.clear()
+    this.thumbnails.clear()
+    this.subtitleTracks.forEach(track => track.release?.())
+    this.subtitleTracks = []
+    this.frameVideo?.dispose()
+    this.frameVideo = null
+
+    for (const video of [this.masterVideo, this.persistentVideo]) {
+      if (!video) continue
+      video.pause()
+      video.removeAttribute('src')
+      video.load()
+      video.remove()
+      releaseElementAnalyser(video)
+    }
+    this.masterVideo = null
+    this.persistentVideo = null
+
+    this.playlist = [] // Lets background thumbnail and duration work see it's stale
+    this.container.innerHTML = ''
+    this.playback.transition('idle')
+    this.removeAllListeners()
+  }
+
+  // Replace the playlist at runtime; invalid entries are skipped and reported through the status display
+  async loadPlaylist(source: PlaylistSource) {
+    const token = ++this.playlistLoadToken
+    this.updateStatus('Loading playlist...')
+
+    let result
+    try {
+      result = await loadPlaylistSource(source)
+    } catch (error) {
+      if (token !== this.playlistLoadToken) return
+      console.error('Error loading playlist:', error)
+      this.updateStatus(`Error loading playlist: ${error instanceof Error ? error.message : error}`)
+      this.emit('error', { error: toError(error), index: null })
+      return
+    }
+    if (this.destroyed || token !== this.playlistLoadToken) return
+
+    result.errors.forEach(({ index, message }) => {
+      console.warn(`Skipping playlist entry ${index + 1}: ${message}`)
+    })
+
+    if (result.items.length === 0) {
+      this.updateStatus('Playlist contains no playable items')
+      return
+    }
+
+    this.stopCurrentMedia()
+    this.preloader?.clear()
+    this.conversions.forEach(conversion => conversion.abort.abort())
+    this.conversions.clear()
+    // Files converted earlier in the session are played from their converted copies
+    this.playlist = result.items.map((item, index) => {
+      const converted = this.convertedUrls.get(item.url)
+      return converted ? { ...item, url: converted, title: getMediaTitle(item, index) } : item
+    })
+    this.playlistOverlays = result.overlays ?? []
+    this.playOrder.reset()
+    this.currentIndex = 0
+    this.currentTime = 0
+    this.itemDurations = []
+    this.failedItems.clear()
+    this.releaseLocalFiles()
+    this.refreshTimeline()
+    this.setupPlaylist()
+    this.startPlaylistChecks()
+    await this.loadCurrentMedia(false)
+    if (token !== this.playlistLoadToken) return
+    this.saveSession()
+
+    if (result.errors.length > 0) {
+      const skipped = result.errors.map(({ index, message }) => `#${index + 1} (${message})`).join('; ')
+      this.updateStatus(`Playlist loaded with ${result.errors.length} invalid entr${result.errors.length === 1 ? 'y' : 'ies'} skipped: ${skipped}`)
+    }
+  }
+
+  // Append local files to the playlist; anything that isn't a video, image or audio file is skipped and reported
+  async addFiles(files: Iterable<File>) {
+    const list = Array.from(files)
+    if (list.length === 0) return
+    this.updateStatus(`Reading ${list.length} file${list.length === 1 ? '' : 's'}...`)
+
+    const { items, skipped } = await createLocalItems(list)
+    if (this.destroyed) {
+      items.forEach(item => unregisterBlob(item.url))
+      return
+    }
+    items.forEach(item => this.localUrls.add(item.url))
+    if (items.length > 0) {
+      this.setPlaylistItems([...this.playlist, ...items])
+    }
+
+    skipped.forEach(({ name, reason }) => console.warn(`Skipping ${name}: ${reason}`))
+    const added = `Added ${items.length} item${items.length === 1 ? '' : 's'}`
+    this.updateStatus(skipped.length > 0
+      ? `${added}, skipped ${skipped.length}: ${skipped.map(({ name, reason }) => `${name} (${reason})`).join('; ')}`
+      : added)
+  }
+
+  removeItem(index: number) {
+    if (index < 0 || index >= this.playlist.length) return
+    this.setPlaylistItems(this.playlist.filter((_, i) => i !== index))
+  }
+
+  // Moves an item so it ends up at index `to`
+  moveItem(from: number, to: number) {
+    if (from === to || from < 0 || from >= this.playlist.length) return
+    const items = [...this.playlist]
+    const [item] = items.splice(from, 1)
+    items.splice(Math.max(0, Math.min(to, items.length)), 0, item)
+    this.setPlaylistItems(items)
+  }
+
+  setImageDuration(index: number, seconds: number) {
+    const item = this.playlist[index]
+    if (item?.type !== 'image' || !Number.isFinite(seconds) || seconds <= 0) return
+
+    this.replaceItem(index, { ...item, duration: seconds })
+    if (index === this.currentIndex) {
+      this.timing = resolveTiming(this.playlist[index], undefined)
+      this.duration = this.timing.duration
+    }
+    this.refreshTimeline()
+    this.saveSession()
+  }
+
+  // Swaps in an edited copy of an item; what is tracked by the item object follows it
+  private replaceItem(index: number, next: MediaItem) {
+    const previous = this.playlist[index]
+    this.playlist[index] = next
+    this.playOrder.replace(previous, next)
+    if (this.stalledItem === previous) this.stalledItem = next
+    const conversion = this.conversions.get(previous)
+    if (conversion) {
+      this.conversions.delete(previous)
+      this.conversions.set(next, conversion)
+    }
+  }
+
+  // Signage: plays what the schedule says, keeps its media cached for offline use and restarts stalled playback
+  private startSignage(fallback: PlaylistSource | undefined) {
+    const signage = this.signage!
+    const { signal } = this.listenerAbort
+    this.signageFallback = fallback
+    this.applySchedule()
+    this.signageTimers.push(window.setInterval(() => this.applySchedule(), SCHEDULE_CHECK_INTERVAL * 1000))
+
+    if (signage.serviceWorker) {
+      registerSignageWorker(signage.serviceWorker).then(registered => {
+        if (!registered || this.destroyed) return
+        this.refreshMediaCache()
+        this.signageTimers.push(window.setInterval(() => this.refreshMediaCache(), signage.refreshInterval * 60 * 1000))
+        window.addEventListener('online', () => this.refreshMediaCache(), { signal })
+      })
+    }
+    // Items that failed while offline are worth another try straight away
+    window.addEventListener('online', () => {
+      if (this.playback.is('error')) this.recoverPlayback()
+    }, { signal })
+
+    this.watchdog = new PlaybackWatchdog(signage.stallTimeout, () => this.getWatchdogPosition(), () => this.recoverPlayback())
+    this.watchdog.start()
+  }
+
+  // Loads and plays the schedule entry that applies now, if it isn't the one playing already
+  private async applySchedule() {
+    const schedule = this.signage!.schedule
+    const index = findActiveSchedule(schedule, new Date())
+    if (index === this.activeSchedule) return
+    this.activeSchedule = index
+
+    const source = index === -1 ? this.signageFallback : schedule[index].playlist
+    if (!source) {
+      this.setPlaylistItems([])
+      this.updateStatus('Nothing scheduled right now')
+      return
+    }
+    console.log(index === -1 ? 'Signage: playing the default playlist' : `Signage: playing schedule entry ${index + 1}`)
+    const previous = this.playlist
+    await this.loadPlaylist(source)
+    if (this.destroyed || this.activeSchedule !== index) return
+    if (this.playlist === previous) {
+      this.activeSchedule = null // Didn't load; the next check tries again
+      return
+    }
+    await this.play()
+  }
+
+  // Downloads everything the scheduled playlists and the background music need, so they play offline
+  private async refreshMediaCache() {
+    if (this.cacheSyncing || !navigator.onLine) return
+    this.cacheSyncing = true
+    try {
+      const sources = [...this.signage!.schedule.map(entry => entry.playlist), this.signageFallback]
+      const urls = collectMediaUrls(this.playlist, this.playlistOverlays, [
+        MASTER_VIDEO_URL,
+        ...this.music.tracks.map(track => track.url)
+      ])
+      const manifests: string[] = []
+      let complete = true
+      for (const source of sources) {
+        if (!source) continue
+        if (typeof source === 'string') {
+          manifests.push(new URL(source, document.baseURI).href)
+        }
+        try {
+          const { items, overlays } = await loadPlaylistSource(source)
+          urls.push(...collectMediaUrls(items, overlays))
+        } catch (error) {
+          console.warn('Could not read a scheduled playlist to cache its media:', error)
+          complete = false // Its files may still be wanted, so nothing is dropped this time
+        }
+      }
+      if (this.destroyed) return
+
+      const { cached, failed } = await syncMediaCache([...new Set(urls)], manifests, complete)
+      this.updateStatus(failed.length > 0
+        ? `Offline cache: ${cached} files ready, ${failed.length} could not be downloaded`
+        : `Offline cache ready (${cached} files)`)
+    } catch (error) {
+      console.warn('Could not update the offline cache:', error)
+    } finally {
+      this.cacheSyncing = false
+    }
+  }
+
+  // What the watchdog expects to keep changing. While playing that's the time; anything else stuck
+  // for long (loading, a failed item, a pause) counts as a stall too, except a deliberate stop at the end.
+  private getWatchdogPosition(): string | null {
+    if (this.playlist.length === 0 || this.stoppedAtEnd) return null
+    const time = this.isPlaying ? this.currentTime.toFixed(1) : ''
+    return `${this.playback.state}:${this.currentIndex}:${time}`
+  }
+
+  // Gets a stalled screen going again: resumes a paused item, restarts a stuck one where it stopped,
+  // and moves past an item that stalls twice in a row. Failed items get another chance, as the
+  // network may be back.
+  private recoverPlayback() {
+    const item = this.playlist[this.currentIndex]
+    if (!item) return
+    this.failedItems.forEach((_, index) => this.clearLoadError(index))
+
+    if (this.playback.is('ready', 'paused')) {
+      console.warn('Signage: playback was paused, resuming')
+      this.play()
+    } else if (this.stalledItem === item) {
+      console.warn(`Signage: "${getMediaTitle(item, this.currentIndex)}" stalled again, skipping it`)
+      this.stalledItem = null
+      this.goToNextMedia(true)
+    } else {
+      console.warn(`Signage: "${getMediaTitle(item, this.currentIndex)}" stalled, restarting it`)
+      this.stalledItem = item
+      this.loadCurrentMedia(true, this.currentTime)
+    }
+  }
+
+  // Loads the saved playlist (or the configured one if nothing of it is left) and offers the saved position
+  private async restoreSession(saved: SessionState, fallback: PlaylistSource | undefined) {
+    this.pendingResume = saved
+    if (saved.playlist.length > 0) {
+      await this.loadPlaylist({ items: saved.playlist, overlays: saved.overlays })
+    }
+    if (this.playlist.length === 0 && fallback) {
+      await this.loadPlaylist(fallback)
+    }
+    if (this.destroyed || this.pendingResume !== saved) return
+
+    // The playlist may have changed since; only offer a position in an item that is still there
+    const index = findResumeIndex(saved, this.playlist)
+    if (index === null || (index === 0 && saved.time < MIN_RESUME_TIME)) {
+      this.pendingResume = null
+      this.saveSession()
+    } else if (this.session?.resumePrompt && this.resumePrompt) {
+      const title = getMediaTitle(this.playlist[index], index)
+      this.resumePrompt.querySelector('.resume-message')!.textContent = `Resume "${title}" from ${formatTime(saved.time)}?`
+      this.resumePrompt.hidden = false
+    } else {
+      this.resumeSession()
+    }
+  }
+
+  private async resumeSession() {
+    const saved = this.pendingResume
+    if (!saved) return
+    const prompted = this.resumePrompt ? !this.resumePrompt.hidden : false
+    this.dismissResumePrompt()
+
+    const index = findResumeIndex(saved, this.playlist)
+    if (index === null) return
+    if (index !== this.currentIndex) {
+      await this.switchToMedia(index, false, saved.time)
+    } else {
+      this.seek(saved.time)
+    }
+    this.updateStatus(`Resumed "${getMediaTitle(this.playlist[index], index)}" at ${formatTime(saved.time)}`)
+
+    // Clicking Resume is the user's go-ahead to play; resuming silently only restores the position
+    if (prompted) {
+      await this.play()
+    }
+  }
+
+  private dismissResumePrompt() {
+    this.pendingResume = null
+    if (this.resumePrompt) this.resumePrompt.hidden = true
+  }
+
+  private saveSession() {
+    if (!this.session || this.pendingResume || this.destroyed || this.playlist.length === 0) return
+    this.lastSessionSave = Date.now()
+
+    // Blob URLs don't outlive the page: converted copies are saved as their originals, local files not at all
+    const originals = new Map(Array.from(this.convertedUrls, ([original, converted]) => [converted, original]))
+    const entries = this.playlist
+      .map((item, index) => ({ item: { ...item, url: originals.get(item.url) ?? item.url }, index }))
+      .filter(({ item }) => !item.url.startsWith('blob:'))
+    const playlist = entries.map(({ item }) => item)
+    const current = entries.findIndex(({ index }) => index === this.currentIndex)
+
+    saveSession(this.session.key, {
+      version: SESSION_VERSION,
+      playlist,
+      overlays: this.playlistOverlays,
+      index: Math.max(0, current),
+      url: playlist[current]?.url ?? '',
+      time: current !== -1 ? this.currentTime : 0,
+      muted: this.isMuted,
+      volume: this.volume,
+      savedAt: Date.now()
+    })
+  }
+
+  // Render the playlist to a single video file, with background music mixed as during playback
+  async exportPlaylist(options: Partial<ExportOptions> = {}): Promise<Blob> {
+    return exportSlideshow(this.playlist, {
+      musicTracks: this.music.tracks,
+      musicCrossfade: this.music.crossfadeDuration,
+      musicVolumes: this.musicVolumes,
+      overlays: [...this.globalOverlays, ...this.playlistOverlays],
+      fit: this.fit,
+      ...options
+    })
+  }
+
+  private async runExport(format: ExportFormat) {
+    this.exportAbort = new AbortController()
+    this.exportStartButton.textContent = 'Cancel'
+    this.exportProgress.value = 0
+    this.exportDownload.hidden = true
+    this.updateStatus(`Exporting ${format.toUpperCase()}...`)
+
+    try {
+      const blob = await this.exportPlaylist({
+        format,
+        signal: this.exportAbort.signal,
+        onProgress: (progress) => {
+          this.exportProgress.value = progress
+        }
+      })
+
+      if (this.exportUrl) {
+        URL.revokeObjectURL(this.exportUrl)
+      }
+      this.exportUrl = URL.createObjectURL(blob)
+      this.exportDownload.href = this.exportUrl
+      this.exportDownload.download = `slideshow.${format}`
+      this.exportDownload.hidden = false
+      this.updateStatus(`Export finished (${(blob.size / 1024 / 1024).toFixed(1)} MB). Click Download to save it.`)
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        this.updateStatus('Export cancelled')
+      } else {
+        console.error('Export failed:', error)
+        this.updateStatus(`Export failed: ${error instanceof Error ? error.message : error}`)
+      }
+    } finally {
+      this.exportAbort = null
+      this.exportStartButton.textContent = 'Export'
+    }
+  }
+
+  // Records the player as it's watched: the picture with its overlays, the videos' sound and the music,
+  // including any skips and pauses. Long recordings should go to a writable, see pickRecordingFile().
+  async startRecording(options: RecordingOptions = {}) {
+    if (this.recorder) {
+      throw new Error('Already recording')
+    }
+    if (!LiveRecorder.isSupported) {
+      throw new Error('This browser cannot record the player')
+    }
+
+    const { width, height } = this.compositor.canvas
+    const audioContext = getAudioContext()
+    if (!audioContext) {
+      console.warn('Recording without sound: this browser has no Web Audio')
+    }
+    const recorder = new LiveRecorder(width, height, audioContext)
+    await recorder.start(options)
+    if (this.destroyed) {
+      await recorder.cancel()
+      return
+    }
+    this.recorder = recorder
+    this.connectRecordingAudio()
+    this.updateRecordButton()
+  }
+
+  // Finishes the recording. Resolves to the file when it was kept in memory, or null when it went to a writable.
+  async stopRecording(): Promise<Blob | null> {
+    const recorder = this.recorder
+    if (!recorder) return null
+    this.recorder = null
+    this.updateRecordButton()
+    return recorder.stop()
+  }
+
+  // The record button: straight to disk where the browser lets the user pick a file, otherwise into memory
+  private async runRecording() {
+    const format = (this.container.querySelector('#exportFormat') as HTMLSelectElement).value as ExportFormat
+    this.recordButton!.disabled = true
+    let writable: FileSystemWritableFileStream | null = null
+    try {
+      writable = await pickRecordingFile(format)
+      await this.startRecording({ format, writable: writable ?? undefined })
+      this.recordDownload!.hidden = true
+      this.recordDownload!.download = `recording.${format}`
+      this.updateStatus(writable ? 'Recording to file...' : 'Recording...')
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        this.updateStatus('Recording cancelled') // Save dialog dismissed
+      } else {
+        writable?.abort().catch(() => {}) // Leaves the picked file empty; may already be closed by the recorder
+        console.error('Recording failed to start:', error)
+        this.updateStatus(`Recording failed: ${error instanceof Error ? error.message : error}`)
+      }
+    } finally {
+      this.recordButton!.disabled = false
+    }
+  }
+
+  private async finishRecording() {
+    this.recordButton!.disabled = true
+    this.updateStatus('Finishing recording...')
+    try {
+      const blob = await this.stopRecording()
+      if (blob) {
+        if (this.recordUrl) {
+          URL.revokeObjectURL(this.recordUrl)
+        }
+        this.recordUrl = URL.createObjectURL(blob)
+        this.recordDownload!.href = this.recordUrl
+        this.recordDownload!.hidden = false
+        this.updateStatus(`Recording finished (${(blob.size / 1024 / 1024).toFixed(1)} MB). Click Download to save it.`)
+      } else {
+        this.updateStatus('Recording saved')
+      }
+    } catch (error) {
+      console.error('Recording failed:', error)
+      this.updateStatus(`Recording failed: ${error instanceof Error ? error.message : error}`)
+    } finally {
+      this.recordButton!.disabled = false
+    }
+  }
+
+  private updateRecordButton() {
+    if (!this.recordButton || !this.recordTime) return
+    const recording = this.recorder !== null
+    this.recordButton.textContent = recording ? '⏹' : '⏺'
+    this.recordButton.title = recording ? 'Stop recording' : 'Record playback'
+    this.recordButton.setAttribute('aria-pressed', String(recording))
+    this.recordButton.classList.toggle('recording', recording)
+    this.recordTime.hidden = !recording
+    this.recordTime.textContent = formatTime(0)
+  }
+
+  // Offers the sound sources on screen to the recording, which connects each one the first time.
+  // Polled per frame, since media elements and decoders come and go as items load.
+  private connectRecordingAudio() {
+    const recorder = this.recorder
+    if (!recorder) return
+
+    if (Howler.masterGain) {
+      recorder.connect(Howler.masterGain, Howler.masterGain) // All the music
+    }
+    const media = this.currentMedia
+    if (media instanceof FrameVideo) {
+      const stream = media.captureAudio() // Decoded in an audio context of its own
+      if (stream) recorder.connectStream(stream)
+    } else if (media instanceof HTMLVideoElement) {
+      const analyser = getElementAnalyser(media)
+      if (analyser) recorder.connect(media, analyser)
+    }
+  }
+
+  private detectMobile() {
+    // Detect mobile devices using user agent and touch capability
+    const userAgent = navigator.userAgent.toLowerCase()
+    const isMobileUA = /android|webos|iphone|ipad|ipod|blackberry|iemobile|opera mini/i.test(userAgent)
+    const hasTouchScreen = 'ontouchstart' in window || navigator.maxTouchPoints > 0
+    const isSmallScreen = window.innerWidth <= 768
+    
+    this.isMobile = isMobileUA || (hasTouchScreen && isSmallScreen)
+    
+    // Adjust initial mute state based on device type
+    // Mobile: start muted and require interaction to unmute
+    // Desktop: start unmuted, allow immediate audio
+    this.isMuted = this.isMobile ? true : false
+    
+    console.log(`Device detected: ${this.isMobile ? 'Mobile' : 'Desktop'}, Initial mute: ${this.isMuted}`)
+  }
+
+  private setupUI() {
+    this.container.innerHTML = `
+      <div class="mediabunny-player" role="region" aria-label="Media player" tabindex="-1">
+        <div class="player-header">
+          <h1>🎬 Mediabunny Player</h1>
+          <p>Sequential media playback with persistent video autoplay (Safari optimized)</p>
+        </div>
+
+        <div class="video-container">
+          <div class="media-display"></div>
+          <div class="media-sources" aria-hidden="true"></div>
+          <div class="subtitle-overlay"></div>
+          <div class="video-overlay">
+            <div class="play-overlay">
+              <button class="play-overlay-btn" aria-label="Play">▶</button>
+            </div>
+          </div>
+          ${this.session ? `
+            <div class="resume-prompt" hidden>
+              <p class="resume-message"></p>
+              <button class="control-btn resume-btn">Resume</button>
+              <button class="control-btn restart-btn">Start over</button>
+            </div>
+          ` : ''}
+        </div>
+
+        <div class="controls">
+          <button id="playBtn" class="control-btn" aria-label="Play">▶</button>
+          <button id="muteBtn" class="control-btn" aria-label="Unmute">🔇</button>
+          <button id="modeBtn" class="control-btn mode-btn"></button>
+          <div class="progress-wrapper">
+            <input type="range" id="progress" class="progress-bar" min="0" max="100" step="any" value="0" aria-label="Seek">
+            <div class="timeline-markers"></div>
+            <div class="scrub-preview" aria-hidden="true" hidden>
+              <canvas class="scrub-preview-frame"></canvas>
+              <span class="scrub-preview-time"></span>
+            </div>
+          </div>
+          <div id="timeDisplay" class="time-display" aria-hidden="true">0:00 / 0:00</div>
+          <button id="ccBtn" class="control-btn" title="Subtitles (C)" aria-label="Subtitles" aria-pressed="false" disabled>CC</button>
+          <select id="subtitleLanguage" class="subtitle-select" title="Subtitle language" hidden></select>
+          <select id="streamQuality" class="quality-select" title="Stream quality" hidden></select>
+          ${document.pictureInPictureEnabled && this.videoBackend === 'element' ? `
+            <button id="pipBtn" class="control-btn" title="Picture-in-picture (P)" aria-label="Picture-in-picture" aria-pressed="false" disabled>⧉</button>
+          ` : ''}
+          ${document.fullscreenEnabled ? '<button id="fullscreenBtn" class="control-btn" title="Fullscreen (F)" aria-label="Fullscreen" aria-pressed="false">⛶</button>' : ''}
+          ${this.inspector ? '<button id="infoBtn" class="control-btn" title="Media info (I)" aria-label="Media info">ℹ</button>' : ''}
+          <button id="exportBtn" class="control-btn" title="Export slideshow" aria-label="Export slideshow" aria-expanded="false">⤓</button>
+          ${LiveRecorder.isSupported ? `
+            <button id="recordBtn" class="control-btn record-btn" title="Record playback" aria-label="Record playback" aria-pressed="false">⏺</button>
+            <span class="record-time" hidden></span>
+            <a id="recordDownload" class="export-download" hidden>Download</a>
+          ` : ''}
+        </div>
+
+        ${this.inspector ? '<div class="info-panel" hidden></div>' : ''}
+
+        <div class="export-panel" hidden>
+          <select id="exportFormat" class="export-format" aria-label="Export format">
+            <option value="mp4">MP4</option>
+            <option value="webm">WebM</option>
+          </select>
+          <button id="exportStartBtn" class="control-btn">Export</button>
+          <progress id="exportProgress" class="export-progress" max="1" value="0"></progress>
+          <a id="exportDownload" class="export-download" hidden>Download</a>
+        </div>
+
+        <div class="playlist">
+          <div class="playlist-header">
+            <h3>Playlist</h3>
+            ${this.editable ? `
+              <label class="control-btn playlist-add" title="Add videos, images and audio">
+                Add files
+                <input type="file" id="fileInput" multiple accept="video/*,image/*,audio/*" hidden>
+              </label>
+            ` : ''}
+          </div>
+          <div class="up-next" hidden>
+            <h4>Up next</h4>
+            <ol class="up-next-items" aria-label="Up next"></ol>
+          </div>
+          <div id="playlistItems" class="playlist-items" role="list" aria-label="Playlist"></div>
+        </div>
+
+        <div id="status" class="status" role="status" aria-live="polite"></div>
+      </div>
+    `
+
+    // Get references to elements
+    this.videoContainer = this.container.querySelector('.media-display') as HTMLElement
+    this.playButton = this.container.querySelector('#playBtn') as HTMLButtonElement
+    this.muteButton = this.container.querySelector('#muteBtn') as HTMLButtonElement
+    this.progressBar = this.container.querySelector('#progress') as HTMLInputElement
+    this.timelineMarkers = this.container.querySelector('.timeline-markers') as HTMLElement
+    this.scrubPreview = this.container.querySelector('.scrub-preview') as HTMLElement
+    this.scrubPreviewCanvas = this.container.querySelector('.scrub-preview-frame') as HTMLCanvasElement
+    this.scrubPreviewTime = this.container.querySelector('.scrub-preview-time') as HTMLElement
+    this.timeDisplay = this.container.querySelector('#timeDisplay') as HTMLDivElement
+    this.statusDisplay = this.container.querySelector('#status') as HTMLDivElement
+    this.subtitleOverlay = this.container.querySelector('.subtitle-overlay') as HTMLElement
+    this.ccButton = this.container.querySelector('#ccBtn') as HTMLButtonElement
+    this.subtitleSelect = this.container.querySelector('#subtitleLanguage') as HTMLSelectElement
+    this.qualitySelect = this.container.querySelector('#streamQuality') as HTMLSelectElement
+    this.playlistElement = this.container.querySelector('#playlistItems') as HTMLElement
+    this.upNextElement = this.container.querySelector('.up-next') as HTMLElement
+    this.modeButton = this.container.querySelector('#modeBtn') as HTMLButtonElement
+    this.mediaSources = this.container.querySelector('.media-sources') as HTMLElement
+    this.exportPanel = this.container.querySelector('.export-panel') as HTMLElement
+    this.exportStartButton = this.container.querySelector('#exportStartBtn') as HTMLButtonElement
+    this.exportProgress = this.container.querySelector('#exportProgress') as HTMLProgressElement
+    this.exportDownload = this.container.querySelector('#exportDownload') as HTMLAnchorElement
+    this.recordButton = this.container.querySelector('#recordBtn')
+    this.recordTime = this.container.querySelector('.record-time')
+    this.recordDownload = this.container.querySelector('#recordDownload')
+    this.infoPanel = this.container.querySelector('.info-panel')
+    this.resumePrompt = this.container.querySelector('.resume-prompt')
+    this.fullscreenButton = this.container.querySelector('#fullscreenBtn')
+    this.pipButton = this.container.querySelector('#pipBtn')
+
+    // All media is drawn through the compositor so transitions can show two items at once
+    this.compositor = new Compositor()
+    this.compositor.onFrame = () => {
+      this.checkOutPoint()
+      this.renderSubtitles() // Polled per frame so cues follow seeks and switches without extra bookkeeping
+      this.captureRecordingFrame()
+    }
+    // Overlays are drawn into the canvas rather than the DOM, so exports and canvas captures include them
+    this.compositor.drawOverlay = ctx => this.drawOverlays(ctx)
+    this.videoContainer.appendChild(this.compositor.canvas)
+    this.compositor.start()
+    // The frame takes its size from the page, or the screen in fullscreen; items are fitted into it
+    this.stageObserver = new ResizeObserver(() => this.resizeStage())
+    this.stageObserver.observe(this.videoContainer)
+
+    // Initialize mute button state based on device type
+    this.updateMuteButton()
+    this.updateModeButton()
+
+    // Initialize basic player
+    const deviceInfo = this.isMobile ? 'Mobile device detected - audio muted by default' : 'Desktop device detected - audio enabled'
+    this.updateStatus(`Basic media player initialized. ${deviceInfo}`)
+
+    this.setupPlaylist()
+  }
+
+  private setupPlaylist() {
+    this.playlistElement.innerHTML = this.playlist.map((item, index) => {
+      const current = index === this.currentIndex // Also the row Tab lands on
+      // Image durations are edited in place of the duration label
+      const duration = this.editable && item.type === 'image'
+        ? `<input type="number" class="playlist-image-duration" data-index="${index}" min="0.5" step="0.5" value="${item.duration ?? DEFAULT_IMAGE_DURATION}" title="Seconds on screen" aria-label="Seconds on screen">`
+        : '<span class="playlist-duration"></span>'
+      return `
+        <div class="playlist-item ${current ? 'active' : ''}" data-index="${index}" role="listitem" tabindex="${current ? 0 : -1}" ${current ? 'aria-current="true"' : ''} ${this.editable ? 'draggable="true"' : ''}>
+          <span class="playlist-number">${index + 1}</span>
+          <span class="playlist-thumbnail" aria-hidden="true">${MEDIA_ICONS[item.type]}</span>
+          <span class="playlist-title">${escapeHtml(getMediaTitle(item, index))}</span>
+          ${duration}
+          <button class="playlist-enqueue" data-index="${index}" title="Add to up next" aria-label="Add to up next">⤵</button>
+          ${this.inspector ? `<button class="playlist-info" data-index="${index}" title="Media info" aria-label="Media info">ℹ</button>` : ''}
+          ${this.editable ? `<button class="playlist-remove" data-index="${index}" title="Remove" aria-label="Remove">✕</button>` : ''}
+        </div>
+      `
+    }).join('')
+
+    // Rows are rebuilt after edits; bring back what is known about each item
+    this.failedItems.forEach((report, index) => this.markFailedItem(index, report))
+    this.conversions.forEach((_, item) => {
+      const index = this.playlist.indexOf(item)
+      if (index !== -1) this.renderConversionControls(index)
+    })
+    this.loadThumbnails()
+  }
+
+  // Swaps in an edited playlist (reordered, added to or trimmed down), carrying per-item state
+  // over by item and keeping the current item on screen if it is still there
+  private setPlaylistItems(items: MediaItem[]) {
+    const previous = this.playlist
+    const previousIndices = items.map(item => previous.indexOf(item))
+    const current = previous[this.currentIndex]
+
+    this.playlist = items
+    this.itemDurations = previousIndices.map(index => index === -1 ? undefined : this.itemDurations[index])
+    const failedItems = new Map<number, ItemLoadError>()
+    previousIndices.forEach((previousIndex, index) => {
+      const report = this.failedItems.get(previousIndex)
+      if (report) failedItems.set(index, { ...report, index })
+    })
+    this.failedItems = failedItems
+    this.inspectedIndex = null
+    this.conversions.forEach((conversion, item) => {
+      if (!items.includes(item)) conversion.abort.abort()
+    })
+    this.releaseLocalFiles()
+
+    const currentIndex = items.indexOf(current)
+    this.playOrder.prune(items)
+    if (currentIndex !== -1) {
+      this.currentIndex = currentIndex
+      this.updateUpcoming()
+    } else if (items.length > 0) {
+      // The current item was removed; its successor takes over
+      const autoPlay = this.isPlaybackActive
+      this.stopCurrentMedia()
+      this.currentIndex = Math.min(this.currentIndex, items.length - 1)
+      this.currentTime = 0
+      this.loadCurrentMedia(autoPlay)
+    } else {
+      this.loadToken++ // Abandon any load in flight
+      this.cancelPendingLoad?.()
+      this.stopCurrentMedia()
+      this.compositor.clear()
+      this.preloader?.clear()
+      this.subtitleTracks.forEach(track => track.release?.())
+      this.subtitleTracks = []
+      this.updateSubtitleControls()
+      this.currentIndex = 0
+      this.currentTime = 0
+      this.duration = 0
+      this.playback.transition('idle')
+      this.syncMusicPlayback()
+    }
+
+    this.setupPlaylist()
+    this.refreshTimeline()
+    this.renderMediaInfo()
+    this.startPlaylistChecks()
+    this.saveSession()
+  }
+
+  // Frees the object URLs of local files no longer in the playlist
+  private releaseLocalFiles() {
+    this.localUrls.forEach(url => {
+      if (this.playlist.some(item => item.url === url)) return
+      unregisterBlob(url)
+      this.localUrls.delete(url)
+    })
+  }
+
+  // Background work that follows the playlist's contents; each pass gives up once the playlist changes
+  private startPlaylistChecks() {
+    if (this.timelineMode === 'playlist') {
+      this.probeDurations()
+    }
+    if (this.inspector || this.transcode) {
+      this.checkPlaylistSupport()
+    }
+  }
+
+  // Fill in thumbnails and durations as they are generated, in playlist order
+  private loadThumbnails() {
+    this.playlist.forEach((item, index) => this.loadThumbnail(item, index))
+  }
+
+  private async loadThumbnail(item: MediaItem, index: number) {
+    const playlist = this.playlist
+    const thumbnail = await this.thumbnails.get(item)
+    if (!thumbnail || this.playlist !== playlist || playlist[index] !== item) return
+
+    const row = this.getPlaylistRow(index)
+    const image = new Image()
+    image.src = thumbnail.src
+    image.alt = ''
+    row?.querySelector('.playlist-thumbnail')?.replaceChildren(image)
+    row?.querySelector('.playlist-duration')?.replaceChildren(formatTime(resolveTiming(item, thumbnail.duration).duration))
+
+    // Thumbnailing reads the duration anyway; let the timeline use it
+    if (this.itemDurations[index] === undefined) {
+      this.itemDurations[index] = thumbnail.duration
+      this.refreshTimeline()
+    }
+  }
+
+  private setupEventListeners() {
+    const { signal } = this.listenerAbort
+
+    // Play button
+    this.playButton.addEventListener('click', () => this.togglePlay(), { signal })
+
+    // Play overlay
+    const playOverlay = this.container.querySelector('.play-overlay-btn') as HTMLButtonElement
+    playOverlay.addEventListener('click', () => this.togglePlay(), { signal })
+
+    // Mute button
+    this.muteButton.addEventListener('click', () => this.toggleMute(), { signal })
+
+    // Subtitles
+    this.ccButton.addEventListener('click', () => this.toggleSubtitles(), { signal })
+    this.subtitleSelect.addEventListener('change', () => {
+      this.subtitleIndex = parseInt(this.subtitleSelect.value)
+      this.subtitleLanguage = this.subtitleTracks[this.subtitleIndex]?.language ?? null
+      this.subtitlesEnabled = true
+      this.updateSubtitleControls()
+    }, { signal })
+
+    // Stream quality
+    this.qualitySelect.addEventListener('change', () => {
+      const value = this.qualitySelect.value
+      this.setStreamQuality(value === 'auto' ? 'auto' : parseInt(value))
+    }, { signal })
+
+    // Progress bar
+    this.progressBar.addEventListener('input', () => this.seekFromProgressBar(), { signal })
+    this.progressBar.addEventListener('pointermove', (e) => {
+      const rect = this.progressBar.getBoundingClientRect()
+      this.scrubPosition = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width))
+      this.showScrubPreview()
+    }, { signal })
+    this.progressBar.addEventListener('pointerleave', () => {
+      this.scrubPosition = null
+      this.scrubPreview.hidden = true
+    }, { signal })
+
+    // Info panel
+    this.container.querySelector('#infoBtn')?.addEventListener('click', () => {
+      this.toggleMediaInfo()
+    }, { signal })
+
+    // Export panel
+    const exportButton = this.container.querySelector('#exportBtn') as HTMLButtonElement
+    exportButton.addEventListener('click', () => {
+      this.exportPanel.hidden = !this.exportPanel.hidden
+      exportButton.setAttribute('aria-expanded', String(!this.exportPanel.hidden))
+    }, { signal })
+    this.exportStartButton.addEventListener('click', () => {
+      if (this.exportAbort) {
+        this.exportAbort.abort()
+      } else {
+        const format = (this.container.querySelector('#exportFormat') as HTMLSelectElement).value as ExportFormat
+        this.runExport(format)
+      }
+    }, { signal })
+
+    // Playback mode: each click moves on to the next mode
+    this.modeButton.addEventListener('click', () => {
+      const next = PLAYBACK_MODES[(PLAYBACK_MODES.indexOf(this.playOrder.mode) + 1) % PLAYBACK_MODES.length]
+      this.setPlaybackMode(next)
+      this.updateStatus(`Playback mode: ${PLAYBACK_MODE_LABELS[next].title}`)
+    }, { signal })
+
+    this.setupUpNextListeners()
+
+    // Recording
+    this.recordButton?.addEventListener('click', () => {
+      if (this.recorder) {
+        this.finishRecording()
+      } else {
+        this.runRecording()
+      }
+    }, { signal })
+
+    // Playlist items
+    this.playlistElement.addEventListener('click', (e) => {
+      const infoButton = (e.target as HTMLElement).closest('.playlist-info') as HTMLElement | null
+      if (infoButton) {
+        this.showMediaInfo(parseInt(infoButton.dataset.index!))
+        return
+      }
+
+      const removeButton = (e.target as HTMLElement).closest('.playlist-remove') as HTMLElement | null
+      if (removeButton) {
+        this.removeItem(parseInt(removeButton.dataset.index!))
+        return
+      }
+
+      const enqueueButton = (e.target as HTMLElement).closest('.playlist-enqueue') as HTMLElement | null
+      if (enqueueButton) {
+        this.enqueue(parseInt(enqueueButton.dataset.index!))
+        return
+      }
+      if ((e.target as HTMLElement).closest('.playlist-image-duration')) return
+
+      const conversionControls = (e.target as HTMLElement).closest('.playlist-convert') as HTMLElement | null
+      if (conversionControls) {
+        if ((e.target as HTMLElement).closest('.convert-btn')) {
+          this.toggleConversion(parseInt(conversionControls.dataset.index!))
+        }
+        return // Don't switch items when using the quality selector
+      }
+
+      const item = (e.target as HTMLElement).closest('.playlist-item') as HTMLElement
+      if (item) {
+        const index = parseInt(item.dataset.index!)
+        if (index !== this.currentIndex) { // Only switch if different video
+          console.log(`Switching to media ${index + 1}`)
+          // Always auto-play when clicking playlist items for better UX
+          this.switchToMedia(index, true)
+        }
+      }
+    }, { signal })
+
+    if (this.editable) {
+      this.setupEditingListeners()
+    }
+
+    // Session persistence
+    if (this.resumePrompt) {
+      this.resumePrompt.querySelector('.resume-btn')!.addEventListener('click', () => this.resumeSession(), { signal })
+      this.resumePrompt.querySelector('.restart-btn')!.addEventListener('click', () => this.dismissResumePrompt(), { signal })
+    }
+    window.addEventListener('pagehide', () => this.saveSession(), { signal })
+
+    // Keyboard shortcuts, only while focus is inside the player
+    this.container.addEventListener('keydown', (e) => {
+      if (!this.keyBindings || e.defaultPrevented) return
+      const target = e.target as HTMLElement
+      if (target.closest(TEXT_ENTRY)) return // Typing, not controlling
+      if ((e.key === ' ' || e.key === 'Enter') && target.closest('button, a[href], label')) return // Activates the control
+
+      const binding = this.keyBindings.match(e)
+      if (binding) {
+        e.preventDefault()
+        this.runKeyAction(binding)
+      }
+    }, { signal })
+
+    this.setupPlaylistKeys()
+
+    // A new device pixel ratio (zoom, another screen) can leave the frame's CSS size as it was
+    window.addEventListener('resize', () => this.resizeStage(), { signal })
+
+    // Fullscreen and picture-in-picture
+    const stage = this.container.querySelector('.video-container') as HTMLElement
+    stage.addEventListener('dblclick', (e) => {
+      if ((e.target as HTMLElement).closest('button')) return
+      this.toggleFullscreen()
+    }, { signal })
+    this.fullscreenButton?.addEventListener('click', () => this.toggleFullscreen(), { signal })
+    document.addEventListener('fullscreenchange', () => {
+      if (!this.fullscreenButton) return
+      const active = document.fullscreenElement === stage
+      this.fullscreenButton.setAttribute('aria-pressed', String(active))
+      this.fullscreenButton.setAttribute('aria-label', active ? 'Exit fullscreen' : 'Fullscreen')
+    }, { signal })
+    this.pipButton?.addEventListener('click', () => this.togglePictureInPicture(), { signal })
+    // Both events bubble up from the video
+    document.addEventListener('enterpictureinpicture', () => this.updatePipButton(), { signal })
+    document.addEventListener('leavepictureinpicture', () => this.updatePipButton(), { signal })
+  }
+
+  private runKeyAction({ action, index }: KeyBinding) {
+    switch (action) {
+      case 'togglePlay':
+        this.togglePlay()
+        break
+      case 'seekBackward':
+      case 'seekForward': {
+        const step = action === 'seekForward' ? SEEK_STEP : -SEEK_STEP
+        if (this.timelineMode === 'playlist') {
+          this.seekToGlobalTime(this.getGlobalTime() + step) // May cross into a neighbouring item
+        } else {
+          this.seek(this.currentTime + step)
+        }
+        break
+      }
+      case 'frameBackward':
+        this.stepFrame(-1)
+        break
+      case 'frameForward':
+        this.stepFrame(1)
+        break
+      case 'previousItem':
+        this.goToPreviousMedia()
+        break
+      case 'nextItem':
+        this.goToNextMedia()
+        break
+      case 'volumeUp':
+      case 'volumeDown':
+        this.setVolume(this.volume + (action === 'volumeUp' ? VOLUME_STEP : -VOLUME_STEP))
+        this.updateStatus(`Volume ${Math.round(this.volume * 100)}%${this.isMuted ? ' (muted)' : ''}`)
+        break
+      case 'toggleMute':
+        this.toggleMute()
+        break
+      case 'toggleSubtitles':
+        this.toggleSubtitles()
+        break
+      case 'toggleInfo':
+        this.toggleMediaInfo()
+        break
+      case 'toggleFullscreen':
+        this.toggleFullscreen()
+        break
+      case 'togglePictureInPicture':
+        this.togglePictureInPicture()
+        break
+      case 'jumpToItem':
+        if (index < this.playlist.length) this.switchToMedia(index, true)
+        break
+    }
+  }
+
+  // Rows are one tab stop: arrows, Home and End move between them, Enter or Space plays the focused
+  // item, and when editable Delete removes it and Alt+arrows move it
+  private setupPlaylistKeys() {
+    const { signal } = this.listenerAbort
+    this.playlistElement.addEventListener('keydown', (e) => {
+      const row = e.target as HTMLElement
+      if (!row.classList.contains('playlist-item')) return // The row's own buttons and inputs
+      const index = parseInt(row.dataset.index!)
+      const last = this.playlist.length - 1
+
+      if (this.editable && e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+        const to = Math.max(0, Math.min(last, index + (e.key === 'ArrowUp' ? -1 : 1)))
+        this.moveItem(index, to)
+        this.focusPlaylistRow(to)
+      } else if (e.altKey || e.ctrlKey || e.metaKey) {
+        return
+      } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        this.focusPlaylistRow(Math.max(0, Math.min(last, index + (e.key === 'ArrowUp' ? -1 : 1))))
+      } else if (e.key === 'Home' || e.key === 'End') {
+        this.focusPlaylistRow(e.key === 'Home' ? 0 : last)
+      } else if (e.key === 'Enter' || e.key === ' ') {
+        if (index === this.currentIndex) {
+          this.togglePlay()
+        } else {
+          this.switchToMedia(index, true)
+        }
+      } else if (e.key === 'Delete' && this.editable) {
+        this.removeItem(index)
+        this.focusPlaylistRow(Math.min(index, this.playlist.length - 1))
+      } else {
+        return
+      }
+      e.preventDefault() // Keeps the player's shortcuts for these keys out of it
+    }, { signal })
+  }
+
+  // File drop and picker, plus drag reordering and inline duration edits in the playlist
+  private setupEditingListeners() {
+    const { signal } = this.listenerAbort
+    const dropTarget = this.container.querySelector('.video-container') as HTMLElement
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false
+
+    dropTarget.addEventListener('dragover', (e) => {
+      if (!hasFiles(e)) return
+      e.preventDefault()
+      e.dataTransfer!.dropEffect = 'copy'
+      dropTarget.classList.add('drag-over')
+    }, { signal })
+    dropTarget.addEventListener('dragleave', (e) => {
+      if (!dropTarget.contains(e.relatedTarget as Node | null)) {
+        dropTarget.classList.remove('drag-over')
+      }
+    }, { signal })
+    dropTarget.addEventListener('drop', async (e) => {
+      if (!hasFiles(e)) return
+      e.preventDefault()
+      dropTarget.classList.remove('drag-over')
+      try {
+        this.addFiles(await getDroppedFiles(e.dataTransfer!))
+      } catch (error) {
+        console.error('Error reading dropped files:', error)
+        this.updateStatus(`Could not read dropped files: ${toError(error).message}`)
+      }
+    }, { signal })
+
+    const fileInput = this.container.querySelector('#fileInput') as HTMLInputElement
+    fileInput.addEventListener('change', () => {
+      this.addFiles(fileInput.files ?? [])
+      fileInput.value = '' // Picking the same files again should add them again
+    }, { signal })
+
+    this.playlistElement.addEventListener('change', (e) => {
+      const input = (e.target as HTMLElement).closest('.playlist-image-duration') as HTMLInputElement | null
+      if (!input) return
+      const index = parseInt(input.dataset.index!)
+      const seconds = parseFloat(input.value)
+      if (Number.isFinite(seconds) && seconds > 0) {
+        this.setImageDuration(index, seconds)
+      } else {
+        input.value = String(this.playlist[index]?.duration ?? DEFAULT_IMAGE_DURATION) // Put back the last valid value
+      }
+    }, { signal })
+
+    // Reordering: rows show whether the dragged row would land above or below them
+    const clearDropMarkers = () => {
+      this.playlistElement.querySelectorAll('.drop-before, .drop-after').forEach(row => row.classList.remove('drop-before', 'drop-after'))
+    }
+    this.playlistElement.addEventListener('dragstart', (e) => {
+      const row = (e.target as HTMLElement).closest('.playlist-item') as HTMLElement | null
+      if (!row) return
+      this.draggedIndex = parseInt(row.dataset.index!)
+      row.classList.add('dragging')
+      e.dataTransfer!.effectAllowed = 'move'
+      e.dataTransfer!.setData('text/plain', row.dataset.index!) // Firefox won't start a drag without data
+    }, { signal })
+    this.playlistElement.addEventListener('dragover', (e) => {
+      const row = (e.target as HTMLElement).closest('.playlist-item') as HTMLElement | null
+      if (this.draggedIndex === null || !row) return
+      e.preventDefault()
+      e.dataTransfer!.dropEffect = 'move'
+      const rect = row.getBoundingClientRect()
+      const after = e.clientY > rect.top + rect.height / 2
+      clearDropMarkers()
+      row.classList.add(after ? 'drop-after' : 'drop-before')
+    }, { signal })
+    this.playlistElement.addEventListener('drop', (e) => {
+      const row = (e.target as HTMLElement).closest('.playlist-item') as HTMLElement | null
+      if (this.draggedIndex === null || !row) return
+      e.preventDefault()
+      const target = parseInt(row.dataset.index!) + (row.classList.contains('drop-after') ? 1 : 0)
+      // Removing the dragged row first shifts everything after it up by one
+      this.moveItem(this.draggedIndex, target > this.draggedIndex ? target - 1 : target)
+    }, { signal })
+    this.playlistElement.addEventListener('dragend', () => {
+      this.draggedIndex = null
+      clearDropMarkers()
+      this.playlistElement.querySelector('.dragging')?.classList.remove('dragging')
+    }, { signal })
+  }
+
+  // Loads the item at currentIndex. Resolves false if the load failed or a newer load superseded it.
+  private async loadCurrentMedia(autoPlay: boolean = false, startTime: number = 0): Promise<boolean> {
+    const mediaItem = this.playlist[this.currentIndex]
+    if (!mediaItem || this.destroyed) return false
+
+    // Only the newest load may touch player state; older ones bail out at their next await
+    let token = ++this.loadToken
+    this.cancelPendingLoad?.()
+    this.cancelPendingLoad = null
+    this.playOrder.played(mediaItem)
+    this.stoppedAtEnd = false
+
+    try {
+      if (!this.isPreloaded(mediaItem)) {
+        this.updateStatus('Loading media...')
+      }
+
+      // Playback carries on across the switch when auto-playing
+      this.playback.transition(autoPlay ? 'transitioning' : 'loading')
+      
+      // Clean up previous media
+      this.stopCurrentMedia()
+      
+      token = await this.loadWithRetries(mediaItem, token)
+      if (token !== this.loadToken) return false
+      this.clearLoadError(this.currentIndex)
+      
+      // Set up event listeners for the loaded media
+      this.setupMediaEventListeners()
+      this.loadSubtitles(mediaItem)
+
+      // The loaders report the source's natural duration; from here on times are item times
+      const naturalDuration = this.duration
+      this.timing = resolveTiming(mediaItem, naturalDuration)
+      this.duration = this.timing.duration
+      if (isVideoMedia(this.currentMedia)) {
+        this.currentMedia.playbackRate = this.timing.rate // Loading a source resets the rate
+      }
+
+      // Jump into the item when arriving from a playlist-wide seek, or to a trimmed in point
+      if (startTime > 0 || this.timing.start > 0) {
+        this.seek(startTime)
+      }
+
+      // The real duration is known now; keep the playlist timeline in step
+      if (Number.isFinite(naturalDuration) && this.itemDurations[this.currentIndex] !== naturalDuration) {
+        this.itemDurations[this.currentIndex] = naturalDuration
+        this.refreshTimeline()
+      }
+      
+      // Adjust music volume based on media type and the item's own music settings
+      this.adjustMusicVolume(mediaItem)
+      
+      this.updatePlaylist()
+
+      // Start warming up the neighbouring items (and whatever plays next) now that this one is on screen
+      this.updateUpcoming()
+
+      this.emit('itemchange', { index: this.currentIndex, item: mediaItem })
+      if (this.inspectedIndex === null) {
+        this.renderMediaInfo()
+      }
+
+      // Images always auto-advance; videos need a prior user interaction to play with sound
+      if (autoPlay && mediaItem.type === 'image') {
+        this.startImageDisplay()
+      } else if (autoPlay && this.hasUserInteracted && isVideoMedia(this.currentMedia)) {
+        await this.autoPlayVideo(this.currentMedia, token)
+      } else {
+        this.playback.transition('ready')
+        this.syncMusicPlayback()
+      }
+      return token === this.loadToken
+      
+    } catch (error) {
+      if (token !== this.loadToken) return false
+      this.handleLoadFailure(mediaItem, error, autoPlay)
+      return false
+    }
+  }
+
+  // Loads an item, retrying with backoff. Each attempt runs under its own token, so one that
+  // timed out and finishes late is ignored. Returns the token of the attempt that got through.
+  private async loadWithRetries(mediaItem: MediaItem, token: number): Promise<number> {
+    const { timeout, retries, retryDelay } = this.errorHandling
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const load = mediaItem.type === 'image' ? this.loadImage(mediaItem, token) : this.loadVideo(mediaItem, token)
+        await withTimeout(load, timeout, `Timed out after ${timeout}s loading ${mediaItem.url}`)
+        return token
+      } catch (error) {
+        this.cancelPendingLoad?.()
+        this.cancelPendingLoad = null
+        if (token !== this.loadToken) return token
+        if (attempt > retries) {
+          throw new MediaLoadError(mediaItem.url, attempt, error)
+        }
+
+        const wait = retryDelay * 2 ** (attempt - 1)
+        console.warn(`Loading ${mediaItem.url} failed (attempt ${attempt} of ${retries + 1}):`, error)
+        this.updateStatus(`Loading failed, retrying in ${wait}s...`)
+        await delay(wait)
+        if (token !== this.loadToken) return token
+        token = ++this.loadToken
+      }
+    }
+  }
+
+  // Records a failed item, reports it and, during playback, moves on to the next playable item
+  private handleLoadFailure(mediaItem: MediaItem, error: unknown, autoPlay: boolean) {
+    const index = this.currentIndex
+    const report: ItemLoadError = {
+      index,
+      url: mediaItem.url,
+      error: toError(error),
+      attempts: error instanceof MediaLoadError ? error.attempts : 1
+    }
+    this.failedItems.set(index, report)
+    this.markFailedItem(index, report)
+    this.offerConversion(index)
+
+    console.error(`Error loading ${mediaItem.url}:`, error)
+    this.playback.transition('error')
+    this.updatePlaylist()
+    this.emit('error', { error: report.error, index })
+    try {
+      this.onItemError?.(report)
+    } catch (callbackError) {
+      console.error('Error in onError callback:', callbackError)
+    }
+
+    const title = getMediaTitle(mediaItem, index)
+    const attempts = report.attempts === 1 ? '' : ` after ${report.attempts} attempts`
+    const nextIndex = autoPlay && this.errorHandling.skipFailed ? this.getNextPlayableIndex(index) : null
+    this.renderUpNext()
+    if (nextIndex !== null) {
+      this.updateStatus(`Skipped "${title}": could not load${attempts} (${report.error.message})`)
+      this.switchToMedia(nextIndex, true)
+    } else if (autoPlay && this.errorHandling.skipFailed) {
+      this.updateStatus(`Playback stopped: no playable items left (last error: ${report.error.message})`)
+    } else {
+      this.updateStatus(`Could not load "${title}"${attempts}: ${report.error.message}`)
+    }
+  }
+
+  // The next item in the playback order that hasn't already failed, or null if none is left.
+  // Failed items passed over stay where they are in the queue and the shuffle round
+  private getNextPlayableIndex(index: number): number | null {
+    const playlist = this.playlist
+    return this.playOrder.takeNext(playlist, index, 'skip', item => !this.failedItems.has(playlist.indexOf(item)))
+  }
+
+  private markFailedItem(index: number, report: ItemLoadError) {
+    const row = this.getPlaylistRow(index)
+    if (!row) return
+    row.classList.add('failed')
+    row.title = `Failed to load after ${report.attempts} attempt${report.attempts === 1 ? '' : 's'}: ${report.error.message}`
+  }
+
+  // A previously failed item loaded after all (clicked again, or the network came back)
+  private clearLoadError(index: number) {
+    if (!this.failedItems.delete(index)) return
+    const row = this.getPlaylistRow(index)
+    row?.classList.remove('failed')
+    row?.removeAttribute('title')
+  }
+
+  private stopCurrentMedia() {
+    if (!this.currentMedia) {
+      this.releaseStream() // One that never finished loading
+      return
+    }
+
+    // Remove event listeners before switching media
+    this.removeMediaEventListeners()
+    this.clearImageTimer()
+    this.holding = false
+    
+    if (isVideoMedia(this.currentMedia)) {
+      // For videos, just pause - don't remove the persistent video.
+      // The compositor keeps a still of the last frame, since the element is about to get a new source
+      this.compositor.freeze()
+      this.currentMedia.pause()
+    } else if (this.currentMedia instanceof HTMLImageElement) {
+      // For images, remove from DOM as usual
+      this.currentMedia.remove()
+    }
+    this.releaseStream()
+    
+    this.currentMedia = null
+  }
+
+  private isPreloaded(mediaItem: MediaItem) {
+    return this.preloader?.isReady(mediaItem.url) ?? false
+  }
+
+  // Also loads audio items: a <video> element plays them just as well, whatever the video backend
+  private async loadVideo(mediaItem: MediaItem, token: number): Promise<void> {
+    if (mediaItem.type === 'stream') {
+      return this.loadStream(mediaItem, token)
+    }
+    if (this.videoBackend === 'mediabunny' && mediaItem.type === 'video') {
+      return this.loadFrameVideo(mediaItem, token)
+    }
+
+    const preloaded = await this.preloader?.take(mediaItem.url)
+    if (token !== this.loadToken) {
+      if (preloaded) releaseMedia(preloaded)
+      return
+    }
+    if (preloaded?.kind === 'video') {
+      this.adoptPreloadedVideo(preloaded.element)
+      return
+    }
+
+    return new Promise((resolve, reject) => {
+      if (!this.persistentVideo) {
+        reject(new Error('No persistent video element available'))
+        return
+      }
+
+      // Clear any existing event listeners from persistent video
+      this.removeMediaEventListeners()
+
+      // Update the persistent video with new source
+      const video = this.persistentVideo
+      video.muted = this.isMuted // Respect current mute state
+      video.volume = this.volume
+      
+      // Set up video event listeners for the new source
+      const detach = () => {
+        video.removeEventListener('loadedmetadata', loadedHandler)
+        video.removeEventListener('error', errorHandler)
+      }
+      const loadedHandler = () => {
+        this.cancelPendingLoad = null
+        detach() // Clean up these specific listeners
+        this.duration = video.duration
+        this.currentMedia = video
+        this.displayCurrentMedia()
+        this.updateTimeDisplay()
+        this.updateStatus('Video loaded. Ready to play.')
+        resolve()
+      }
+      
+      const errorHandler = () => {
+        this.cancelPendingLoad = null
+        detach()
+        reject(new Error(video.error?.message || `Failed to load video ${mediaItem.url} (error code ${video.error?.code ?? 'unknown'})`))
+      }
+      
+      video.addEventListener('loadedmetadata', loadedHandler)
+      video.addEventListener('error', errorHandler)
+
+      // A newer load (or a timeout) detaches this one instead of letting it settle for the wrong item
+      this.cancelPendingLoad = () => {
+        detach()
+        resolve()
+      }
+      
+      // Set new source - this will trigger loading
+      video.src = mediaItem.url
+    })
+  }
+
+  // Streams play through the persistent video, whatever the video backend: fed segment by segment
+  // through Media Source Extensions, or by the browser itself where only it can play HLS (iOS)
+  private async loadStream(mediaItem: MediaItem, token: number): Promise<void> {
+    const video = this.persistentVideo
+    if (!video) {
+      throw new Error('No persistent video element available')
+    }
+    this.releaseStream() // From an earlier attempt
+    this.removeMediaEventListeners()
+    video.muted = this.isMuted
+    video.volume = this.volume
+
+    let stream: AdaptiveStream | null = null
+    if (AdaptiveStream.isSupported) {
+      stream = this.stream = new AdaptiveStream(video, () => this.videoContainer.clientHeight * devicePixelRatio)
+      stream.onQualityChange = rendition => this.handleQualityChange(rendition)
+    } else if (!video.canPlayType('application/vnd.apple.mpegurl')) {
+      throw new Error('This browser cannot play streams (no Media Source Extensions)')
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const detach = () => {
+        this.cancelPendingLoad = null
+        video.removeEventListener('loadedmetadata', loadedHandler)
+        video.removeEventListener('error', errorHandler)
+      }
+      const loadedHandler = () => {
+        detach()
+        resolve()
+      }
+      const fail = (error: Error) => {
+        detach()
+        reject(error)
+      }
+      const errorHandler = () => fail(new Error(video.error?.message || `Failed to load stream ${mediaItem.url} (error code ${video.error?.code ?? 'unknown'})`))
+
+      video.addEventListener('loadedmetadata', loadedHandler)
+      video.addEventListener('error', errorHandler)
+      this.cancelPendingLoad = () => {
+        detach()
+        resolve()
+      }
+
+      if (stream) {
+        stream.onError = fail
+        stream.load(mediaItem.url).catch(error => {
+          // Desktop Safari has Media Source Extensions as well as HLS of its own, which takes MPEG-TS segments
+          if (error instanceof NativeHlsRequiredError && video.canPlayType('application/vnd.apple.mpegurl')) {
+            if (token !== this.loadToken) return
+            this.releaseStream()
+            stream = null
+            video.src = mediaItem.url
+          } else {
+            fail(error)
+          }
+        })
+      } else {
+        video.src = mediaItem.url
+      }
+    })
+    if (token !== this.loadToken) return
+
+    // From here on a failing stream counts as a failed item
+    if (stream) {
+      stream.onError = error => this.handleLoadFailure(mediaItem, new MediaLoadError(mediaItem.url, 1, error), this.isPlaybackActive)
+    }
+    this.duration = video.duration
+    this.currentMedia = video
+    this.displayCurrentMedia()
+    this.updateTimeDisplay()
+    this.updateQualitySelect()
+    this.updateStatus(`${video.duration === Infinity ? 'Live stream' : 'Stream'} loaded. Ready to play.`)
+  }
+
+  private releaseStream() {
+    if (!this.stream) return
+    this.stream.destroy()
+    this.stream = null
+    this.updateQualitySelect()
+  }
+
+  private handleQualityChange(rendition: StreamRendition) {
+    const auto = this.stream?.selectedQuality === 'auto'
+    this.updateQualitySelect()
+    this.updateStatus(`Stream quality: ${describeRendition(rendition)}${auto ? ' (auto)' : ''}`)
+    this.emit('qualitychange', { index: this.currentIndex, rendition, auto })
+  }
+
+  // "Auto" names the rendition it's on; the others lock one
+  private updateQualitySelect() {
+    const stream = this.stream
+    this.qualitySelect.hidden = !stream || stream.renditions.length < 2
+    if (!stream) {
+      this.qualitySelect.replaceChildren()
+      return
+    }
+
+    const current = stream.currentRendition
+    const selected = stream.selectedQuality
+    this.qualitySelect.innerHTML = [
+      `<option value="auto" ${selected === 'auto' ? 'selected' : ''}>Auto${current ? ` (${escapeHtml(describeRendition(current))})` : ''}</option>`,
+      ...stream.renditions.map((rendition, index) => {
+        return `<option value="${index}" ${index === selected ? 'selected' : ''}>${escapeHtml(describeRendition(rendition))}</option>`
+      })
+    ].join('')
+  }
+
+  // Swap a preloaded <video> (first frame already decoded) in as the persistent video
+  private adoptPreloadedVideo(video: HTMLVideoElement) {
+    this.removeMediaEventListeners()
+
+    const previous = this.persistentVideo
+    // Picture-in-picture moves over to the new element, before the old one closes its window: no user
+    // gesture is needed while one is open
+    if (previous && previous !== video && document.pictureInPictureElement === previous) {
+      video.requestPictureInPicture().catch(error => console.warn('Could not keep picture-in-picture:', error))
+    }
+    if (previous && previous !== video) {
+      previous.pause()
+      previous.removeAttribute('src')
+      previous.load()
+      previous.remove()
+      releaseElementAnalyser(previous)
+    }
+
+    video.muted = this.isMuted
+    video.volume = this.volume
+    video.currentTime = 0
+    document.body.appendChild(video)
+    this.persistentVideo = video
+
+    this.duration = video.duration
+    this.currentTime = 0
+    this.currentMedia = video
+    this.displayCurrentMedia()
+    this.updateTimeDisplay()
+    this.updateStatus('Video loaded. Ready to play.')
+  }
+
+  private async loadFrameVideo(mediaItem: MediaItem, token: number): Promise<void> {
+    if (!this.frameVideo) {
+      throw new Error('No frame video renderer available')
+    }
+
+    let video = this.frameVideo
+    const preloaded = await this.preloader?.take(mediaItem.url)
+    if (token !== this.loadToken) {
+      if (preloaded) releaseMedia(preloaded)
+      return
+    }
+
+    if (preloaded?.kind === 'frame-video') {
+      // The preloaded renderer already has its first frame painted; retire the old one
+      this.frameVideo.dispose()
+      this.frameVideo = video = preloaded.video
+    } else {
+      // Resolves once the first frame has been decoded and painted (or a newer load took over)
+      await video.load(mediaItem.url)
+      if (token !== this.loadToken) return
+    }
+
+    video.muted = this.isMuted // Respect current mute state
+    video.volume = this.volume
+
+    this.duration = video.duration
+    this.currentTime = 0
+    this.currentMedia = video
+    this.displayCurrentMedia()
+    this.updateTimeDisplay()
+    this.updateStatus('Video loaded. Ready to play.')
+  }
+
+  private async autoPlayVideo(video: VideoMedia, token: number) {
+    try {
+      await video.play()
+      if (token !== this.loadToken) return
+      this.playback.transition('playing')
+      this.updateStatus('Auto-playing video...')
+    } catch (error) {
+      if (token !== this.loadToken) return
+      console.warn('Auto-play blocked by browser:', error)
+      this.updateStatus('Click play to continue - auto-play blocked by browser')
+      this.playback.transition('ready')
+    }
+
+    // Sync music after the autoplay attempt, whether or not it succeeded
+    this.syncMusicPlayback()
+  }
+
+  private async loadImage(mediaItem: MediaItem, token: number): Promise<void> {
+    const preloaded = await this.preloader?.take(mediaItem.url)
+    if (token !== this.loadToken) {
+      if (preloaded) releaseMedia(preloaded)
+      return
+    }
+    if (preloaded?.kind === 'image') {
+      // Already fetched and decoded
+      this.showImage(preloaded.element, mediaItem)
+      return
+    }
+
+    return new Promise((resolve, reject) => {
+      // Create new image element
+      const image = new Image()
+      image.crossOrigin = 'anonymous'
+      image.style.display = 'none'
+
+      image.addEventListener('load', () => {
+        if (token === this.loadToken) {
+          this.showImage(image, mediaItem)
+        }
+        resolve()
+      })
+
+      image.addEventListener('error', () => {
+        reject(new Error(`Failed to load image ${mediaItem.url}`))
+      })
+
+      image.src = mediaItem.url
+    })
+  }
+
+  private showImage(image: HTMLImageElement, mediaItem: MediaItem) {
+    this.duration = mediaItem.duration || DEFAULT_IMAGE_DURATION
+    this.currentTime = 0
+    this.currentMedia = image
+    this.displayCurrentMedia()
+    this.updateTimeDisplay()
+    this.updateStatus('Image loaded. Ready to display.')
+  }
+
+  private startImageDisplay() {
+    this.playback.transition('playing')
+    this.imageStartTime = Date.now() - (this.currentTime * 1000) // Resume from the current position
+    this.startImageTimer()
+    
+    // Ensure background music continues for images
+    this.syncMusicPlayback()
+  }
+
+  private startImageTimer() {
+    this.clearImageTimer()
+    
+    const updateTimer = () => {
+      if (this.isPlaying && (this.currentMedia instanceof HTMLImageElement || this.holding)) {
+        const elapsed = (Date.now() - this.imageStartTime) / 1000
+        this.currentTime = Math.min(elapsed, this.duration)
+        this.updateProgress()
+        this.updateTimeDisplay()
+        this.emitTimeUpdate()
+        
+        // Go to next media when duration is reached (earlier if the next item transitions in over this one)
+        if (this.currentTime >= this.getOutPoint()) {
+          this.handleItemEnded()
+        } else {
+          this.imageTimer = requestAnimationFrame(updateTimer)
+        }
+      }
+    }
+    
+    this.imageTimer = requestAnimationFrame(updateTimer)
+  }
+
+  private clearImageTimer() {
+    if (this.imageTimer) {
+      cancelAnimationFrame(this.imageTimer)
+      this.imageTimer = null
+    }
+    // Note: Don't stop blank video here - let controlBlankVideo handle it based on next media type
+  }
+
+
+
+  private resizeStage() {
+    if (this.destroyed) return
+    this.compositor.resize(this.videoContainer.clientWidth, this.videoContainer.clientHeight)
+  }
+
+  // Sizes come from the element once it has decoded some of the media: videoWidth and videoHeight for
+  // <video> and displayWidth and displayHeight for mediabunny, both with any rotation metadata applied.
+  // They can change during an item, e.g. a stream moving to a rendition of another shape
+  private handleMediaResize() {
+    if (!this.currentMedia || this.playlist[this.currentIndex]?.type === 'audio') return
+    const [width, height] = getMediaSize(this.currentMedia)
+    if (width && height) this.compositor.updateLayer({ width, height })
+  }
+
+  private canPictureInPicture() {
+    const type = this.playlist[this.currentIndex]?.type
+    return this.currentMedia !== null && this.currentMedia === this.persistentVideo && (type === 'video' || type === 'stream')
+  }
+
+  // Picture-in-picture ends with the video items: other items aren't drawn into the video
+  private updatePipButton() {
+    const video = this.persistentVideo
+    const active = video !== null && document.pictureInPictureElement === video
+    if (active && !this.canPictureInPicture()) {
+      document.exitPictureInPicture().catch(() => {})
+    }
+    if (!this.pipButton) return
+    this.pipButton.disabled = !this.canPictureInPicture()
+    this.pipButton.setAttribute('aria-pressed', String(active))
+    this.pipButton.setAttribute('aria-label', active ? 'Exit picture-in-picture' : 'Picture-in-picture')
+  }
+
+  private displayCurrentMedia() {
+    if (!this.currentMedia || !this.videoContainer) return
+
+    // Keep the source element in the document (Safari won't play detached videos) but out of sight
+    const mediaNode = getMediaNode(this.currentMedia)
+    if (mediaNode.parentElement !== this.mediaSources) {
+      this.mediaSources.appendChild(mediaNode)
+    }
+    mediaNode.style.display = ''
+    this.updatePipButton()
+
+    // Hand the new item to the compositor, transitioning from whatever is on screen
+    const mediaItem = this.playlist[this.currentIndex]
+    this.compositor.show(this.createLayer(this.currentMedia, mediaItem), mediaItem.transition)
+  }
+
+  private createLayer(media: MediaElement, mediaItem: MediaItem): CompositorLayer {
+    const [width, height] = this.getDisplaySize(media)
+    if (mediaItem.type === 'audio' && isVideoMedia(media)) {
+      // The spectrum needs the element's live sound; the waveform is read from the file
+      const analyser = mediaItem.visualization === 'spectrum' && media instanceof HTMLVideoElement ? getElementAnalyser(media) : null
+      this.audioVisualizer.load(mediaItem, analyser)
+      return {
+        source: this.audioVisualizer.canvas,
+        width,
+        height,
+        fit: mediaItem.fit ?? this.fit,
+        render: () => this.audioVisualizer.render(media.duration > 0 ? media.currentTime / media.duration : 0)
+      }
+    }
+
+    return {
+      source: getMediaNode(media),
+      width,
+      height,
+      fit: mediaItem.fit ?? this.fit,
+      kenBurns: media instanceof HTMLImageElement ? resolveKenBurns(mediaItem.kenBurns) : undefined,
+      getProgress: () => this.duration > 0 ? this.currentTime / this.duration : 0
+    }
+  }
+
+  // Audio items are shown through the visualizer rather than their (imageless) element
+  private getDisplaySize(media: MediaElement): [number, number] {
+    if (this.playlist[this.currentIndex]?.type === 'audio') {
+      return [this.audioVisualizer.canvas.width, this.audioVisualizer.canvas.height]
+    }
+    return getMediaSize(media)
+  }
+
+  // Seconds at the end of the current item that overlap with the next item's transition
+  // Between items only the playlist-wide overlays stay up; the next item's own appear once it is on screen
+  private drawOverlays(ctx: CanvasRenderingContext2D) {
+    const overlays = [...this.globalOverlays, ...this.playlistOverlays]
+    const media = this.currentMedia
+    if (media) {
+      overlays.push(...(this.playlist[this.currentIndex]?.overlays ?? []))
+    }
+    if (overlays.length === 0) return
+
+    // Read video time per frame, as timeupdate events are too coarse for smooth fades
+    const time = isVideoMedia(media) && !this.holding ? Math.min(toItemTime(this.timing, media.currentTime), this.duration) : this.currentTime
+    this.overlayRenderer.draw(ctx, overlays, time, this.duration)
+  }
+
+  private getTransitionOverlap() {
+    // Nothing to transition into when playback stops here or starts this item over
+    const nextIndex = this.playOrder.peekNext(this.playlist, this.currentIndex, 'ended')
+    if (nextIndex === null || nextIndex === this.currentIndex) return 0
+    return getTransitionOverlap(this.duration, this.playlist[nextIndex].transition)
+  }
+
+  // The time at which sequential playback hands over to the next item
+  private getOutPoint() {
+    return Math.max(0, this.duration - this.getTransitionOverlap())
+  }
+
+  // Checked every frame: trimmed videos stop at their out point, and videos start the next
+  // item's transition before they end so both overlap on screen
+  private checkOutPoint() {
+    if (!this.isPlaying || this.holding || !isVideoMedia(this.currentMedia)) return
+
+    const video = this.currentMedia
+    if (video.currentTime >= this.timing.end) {
+      this.finishVideo(video)
+    } else if (toItemTime(this.timing, video.currentTime) >= this.getOutPoint()) {
+      this.handleItemEnded()
+    }
+  }
+
+  // The video reached its out point: hold its last frame if asked to, otherwise move on
+  private finishVideo(video: VideoMedia) {
+    if (this.timing.hold > 0) {
+      this.enterHold(video, this.duration - this.timing.hold)
+    } else {
+      this.handleItemEnded()
+    }
+  }
+
+  // Keeps the paused video's frame on screen and runs the rest of the item off the image timer
+  private enterHold(video: VideoMedia, time: number) {
+    this.holding = true
+    video.pause() // Ignored by the pause listener while holding
+    this.currentTime = time
+    this.updateProgress()
+    this.updateTimeDisplay()
+    if (this.isPlaying) {
+      this.imageStartTime = Date.now() - (this.currentTime * 1000)
+      this.startImageTimer()
+    }
+  }
+
+  private leaveHold(video: VideoMedia) {
+    this.holding = false
+    this.clearImageTimer()
+    if (this.isPlaying) {
+      video.play().catch(error => console.warn('Could not resume video after hold:', error))
+    }
+  }
+
+  private async togglePlay() {
+    // Nothing to toggle until the incoming item has loaded
+    if (!this.currentMedia || this.playback.isSwitching) return
+
+    // Start master video on first user interaction
+    if (!this.hasUserInteracted) {
+      await this.startMasterVideo()
+    }
+
+    try {
+      if (this.isPlaying) {
+        if (isVideoMedia(this.currentMedia) && !this.holding) {
+          this.currentMedia.pause()
+        } else {
+          this.playback.transition('paused')
+          this.clearImageTimer()
+        }
+      } else {
+        if (this.stoppedAtEnd) {
+          this.stoppedAtEnd = false
+          this.seek(0) // Playing again after 'stop' mode ended starts the last item over
+        }
+        if (isVideoMedia(this.currentMedia) && !this.holding) {
+          await this.currentMedia.play()
+          this.playback.transition('playing')
+        } else {
+          this.startImageDisplay() // Images and held frames run off the timer
+        }
+      }
+      
+      // Sync master video and background music with play/pause state
+      this.syncMasterVideo()
+      this.syncMusicPlayback()
+      
+    } catch (error) {
+      console.error('Error toggling playback:', error)
+      this.updateStatus(`Playback error: ${error}`)
+      this.emit('error', { error: toError(error), index: this.currentIndex })
+    }
+  }
+
+  private async toggleMute() {
+    // On mobile devices, require user interaction before allowing unmute
+    if (this.isMobile && !this.hasUserInteracted && this.isMuted) {
+      await this.startMasterVideo()
+      // After user interaction on mobile, we can proceed with unmute
+    } else if (!this.isMobile && !this.hasUserInteracted) {
+      // On desktop, start master video but don't require interaction for unmute
+      await this.startMasterVideo()
+    }
+
+    // Check if we can unmute based on device type and interaction
+    if (this.isMobile && !this.hasUserInteracted && this.isMuted) {
+      // On mobile, don't allow unmute without user interaction
+      this.updateStatus('Tap play or interact with the player first to enable audio on mobile devices')
+      return
+    }
+
+    this.isMuted = !this.isMuted
+    this.updateMuteButton()
+    
+    this.music.setMuted(this.isMuted)
+    
+    // Mute/unmute current video if it's a video element
+    if (isVideoMedia(this.currentMedia)) {
+      this.currentMedia.muted = this.isMuted
+    }
+    
+    const deviceType = this.isMobile ? 'mobile' : 'desktop'
+    console.log(`Audio ${this.isMuted ? 'muted' : 'unmuted'} on ${deviceType}`)
+    this.updateStatus(`Audio ${this.isMuted ? 'muted' : 'unmuted'}`)
+    this.saveSession()
+  }
+
+  private seekFromProgressBar() {
+    const position = parseFloat(this.progressBar.value) / 100
+
+    // With a playlist timeline the bar spans the whole show
+    if (this.timelineMode === 'playlist') {
+      this.seekToGlobalTime(position * this.timeline.totalDuration)
+    } else {
+      this.seek(position * this.getOutPoint())
+    }
+  }
+
+  // Seek to a position on the playlist timeline, switching items if needed
+  private seekToGlobalTime(time: number) {
+    const target = locateTime(this.timeline, time)
+    if (!target) return
+
+    if (target.index === this.currentIndex) {
+      this.seek(target.offset)
+    } else {
+      this.switchToMedia(target.index, this.isPlaybackActive, target.offset)
+    }
+  }
+
+  private getGlobalTime() {
+    const segment = this.timeline.segments[this.currentIndex]
+    return (segment?.start ?? 0) + Math.min(this.currentTime, this.getOutPoint())
+  }
+
+  // Maps a progress bar position to the item and time it would seek to
+  private getScrubTarget(position: number): { index: number, offset: number, time: number } | null {
+    if (this.timelineMode === 'playlist') {
+      const time = position * this.timeline.totalDuration
+      const target = locateTime(this.timeline, time)
+      return target && { ...target, time }
+    }
+
+    const time = position * this.getOutPoint()
+    return { index: this.currentIndex, offset: time, time }
+  }
+
+  private showScrubPreview() {
+    if (this.scrubPosition === null) return
+    const target = this.getScrubTarget(this.scrubPosition)
+    if (!target) return
+
+    this.scrubPreview.hidden = false
+    this.scrubPreview.style.left = `${this.scrubPosition * 100}%`
+    this.scrubPreviewTime.textContent = formatTime(target.time)
+
+    if (!this.isRenderingScrub) {
+      this.renderScrubPreview()
+    }
+  }
+
+  // Decodes one preview frame at a time, always for the latest hovered position
+  private async renderScrubPreview() {
+    this.isRenderingScrub = true
+    let rendered: number | null = null
+
+    try {
+      while (this.scrubPosition !== null && this.scrubPosition !== rendered) {
+        rendered = this.scrubPosition
+        const target = this.getScrubTarget(rendered)
+        const item = target && this.playlist[target.index]
+        if (!item) break
+
+        const frame = item.type === 'video'
+          ? await this.thumbnails.getPreviewFrame(item.url, toMediaTime(this.getItemTiming(target.index), target.offset))
+          : await this.getImagePreview(item)
+        if (!frame || this.scrubPosition === null) continue
+
+        this.scrubPreviewCanvas.width = frame.width
+        this.scrubPreviewCanvas.height = frame.height
+        this.scrubPreviewCanvas.getContext('2d')!.drawImage(frame, 0, 0)
+      }
+    } catch (error) {
+      console.warn('Scrub preview failed:', error)
+    } finally {
+      this.isRenderingScrub = false
+    }
+  }
+
+  private getItemTiming(index: number): ItemTiming {
+    return index === this.currentIndex ? this.timing : resolveTiming(this.playlist[index], this.itemDurations[index])
+  }
+
+  private async getImagePreview(item: MediaItem): Promise<HTMLImageElement | null> {
+    const thumbnail = await this.thumbnails.get(item)
+    if (!thumbnail) return null
+
+    const image = new Image()
+    image.src = thumbnail.src
+    await image.decode()
+    return image
+  }
+
+  private refreshTimeline() {
+    this.timeline = buildTimeline(this.playlist, this.itemDurations)
+    this.renderTimelineMarkers()
+    this.updateProgress()
+    this.updateTimeDisplay()
+  }
+
+  private renderTimelineMarkers() {
+    const { segments, totalDuration } = this.timeline
+    if (this.timelineMode !== 'playlist' || totalDuration <= 0) {
+      this.timelineMarkers.innerHTML = ''
+      return
+    }
+
+    // One marker at the start of every item after the first
+    this.timelineMarkers.innerHTML = segments.slice(1).map(segment => {
+      const title = escapeHtml(getMediaTitle(this.playlist[segment.index], segment.index))
+      return `<span class="timeline-marker" style="left: ${(segment.start / totalDuration) * 100}%" title="${title}"></span>`
+    }).join('')
+  }
+
+  private toggleMediaInfo() {
+    if (!this.infoPanel) return
+    this.infoPanel.hidden = !this.infoPanel.hidden
+    this.inspectedIndex = null
+    this.renderMediaInfo()
+  }
+
+  private showMediaInfo(index: number) {
+    if (!this.infoPanel) return
+    this.infoPanel.hidden = false
+    this.inspectedIndex = index === this.currentIndex ? null : index
+    this.renderMediaInfo()
+  }
+
+  private async renderMediaInfo() {
+    const panel = this.infoPanel
+    if (!panel || panel.hidden) return
+
+    const index = this.inspectedIndex ?? this.currentIndex
+    const item = this.playlist[index]
+    if (!item) return
+
+    const heading = `<h4>${escapeHtml(getMediaTitle(item, index))}${index === this.currentIndex ? ' (current)' : ''}</h4>`
+    panel.innerHTML = `${heading}<p>Inspecting...</p>`
+
+    let body
+    try {
+      const info = await this.inspectItem(index)
+      const rows = describeMediaInfo(info)
+        .map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`)
+        .join('')
+      const issues = getPlaybackIssues(info, this.videoBackend === 'mediabunny')
+        .map(issue => `<li class="info-issue ${issue.severity}">${escapeHtml(issue.message)}</li>`)
+        .join('')
+      body = `<dl>${rows}</dl>${issues ? `<ul class="info-issues">${issues}</ul>` : ''}`
+    } catch (error) {
+      body = `<ul class="info-issues"><li class="info-issue error">Could not read file: ${escapeHtml(toError(error).message)}</li></ul>`
+    }
+
+    // The panel may have moved on to another item while this one was read
+    if (panel.hidden || (this.inspectedIndex ?? this.currentIndex) !== index || this.playlist[index] !== item) return
+    panel.innerHTML = heading + body
+  }
+
+  // Inspects every item in the background and flags the ones this browser probably can't play
+  private async checkPlaylistSupport() {
+    const playlist = this.playlist
+    const unsupported: string[] = []
+
+    for (const [index, item] of playlist.entries()) {
+      let problem: string | undefined
+      try {
+        const info = await this.inspectItem(index)
+        problem = getPlaybackIssues(info, this.videoBackend === 'mediabunny').find(issue => issue.severity === 'error')?.message
+      } catch (error) {
+        problem = `Could not read file: ${toError(error).message}`
+      }
+      if (this.playlist !== playlist) return // Playlist was replaced meanwhile
+      if (!problem) continue
+
+      console.warn(`Playlist item ${index + 1} (${item.url}) will likely fail: ${problem}`)
+      unsupported.push(getMediaTitle(item, index))
+      const row = this.getPlaylistRow(index)
+      row?.classList.add('unsupported')
+      if (row && !row.classList.contains('failed')) {
+        row.title = `Likely to fail in this browser: ${problem}`
+      }
+      this.offerConversion(index)
+    }
+
+    if (unsupported.length > 0) {
+      this.updateStatus(`${unsupported.length} item${unsupported.length === 1 ? '' : 's'} may not play in this browser: ${unsupported.join(', ')}`)
+    }
+  }
+
+  // Adds convert controls to a video's playlist row if the browser can't play it but could convert it
+  private async offerConversion(index: number) {
+    const item = this.playlist[index]
+    if (!this.transcode || item?.type !== 'video' || this.conversions.has(item)) return
+
+    const info = await this.inspectItem(index).catch(() => null)
+    if (!info || this.playlist[index] !== item) return
+
+    const unplayable = getPlaybackIssues(info, this.videoBackend === 'mediabunny').some(issue => issue.severity === 'error')
+    const convertible = info.videoTracks.some(track => track.canDecode)
+    if (unplayable && convertible) {
+      this.renderConversionControls(index)
+    }
+  }
+
+  private renderConversionControls(index: number) {
+    const row = this.getPlaylistRow(index)
+    if (!row) return
+
+    let controls = row.querySelector('.playlist-convert') as HTMLElement | null
+    if (!controls) {
+      controls = document.createElement('span')
+      controls.className = 'playlist-convert'
+      controls.dataset.index = String(index)
+      row.appendChild(controls)
+    }
+
+    const conversion = this.conversions.get(this.playlist[index])
+    if (conversion) {
+      controls.innerHTML = `
+        <progress class="convert-progress" max="1" value="${conversion.progress}"></progress>
+        <button class="convert-btn" title="Cancel conversion">Cancel</button>
+      `
+    } else {
+      const selected = this.transcode?.quality ?? 'medium'
+      const options = (Object.keys(TRANSCODE_QUALITIES) as TranscodeQuality[])
+        .map(quality => `<option value="${quality}" ${quality === selected ? 'selected' : ''}>${quality.replace('-', ' ')}</option>`)
+        .join('')
+      controls.innerHTML = `
+        <select class="convert-quality" title="Conversion quality">${options}</select>
+        <button class="convert-btn" title="Convert to a format this browser can play">Convert</button>
+      `
+    }
+  }
+
+  // Starts converting an item, or cancels its running conversion.
+  // Conversions follow the item rather than its index, so the playlist can be rearranged meanwhile.
+  private async toggleConversion(index: number) {
+    const item = this.playlist[index]
+    const running = item && this.conversions.get(item)
+    if (running) {
+      running.abort.abort()
+      return
+    }
+
+    const row = this.getPlaylistRow(index)
+    if (!item || !row || !this.transcode) return
+
+    const quality = (row.querySelector('.convert-quality') as HTMLSelectElement | null)?.value as TranscodeQuality | undefined
+    const conversion = { abort: new AbortController(), progress: 0 }
+    this.conversions.set(item, conversion)
+    // The playlist may hold an edited copy of the item by the time the conversion is done
+    const currentItem = () => [...this.conversions].find(([, running]) => running === conversion)?.[0] ?? item
+    this.renderConversionControls(index)
+    const title = getMediaTitle(item, index)
+    this.updateStatus(`Converting "${title}"...`)
+
+    try {
+      const blob = await transcodeMedia(item.url, {
+        format: this.transcode.format,
+        quality: quality ?? this.transcode.quality,
+        signal: conversion.abort.signal,
+        onProgress: value => {
+          conversion.progress = value
+          const progress = this.getPlaylistRow(this.playlist.indexOf(currentItem()))?.querySelector('.convert-progress') as HTMLProgressElement | null
+          if (progress) progress.value = value
+        }
+      })
+      const converting = currentItem()
+      this.conversions.delete(converting)
+      if (!this.playlist.includes(converting)) return // Removed meanwhile
+
+      const url = registerBlob(blob)
+      this.convertedUrls.set(item.url, url)
+      this.useConvertedItem(this.playlist.indexOf(converting), url)
+      this.updateStatus(`Converted "${title}" (${(blob.size / 1024 / 1024).toFixed(1)} MB)`)
+    } catch (error) {
+      const converting = currentItem()
+      this.conversions.delete(converting)
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        this.updateStatus(`Conversion of "${title}" cancelled`)
+      } else {
+        console.error(`Converting ${item.url} failed:`, error)
+        this.updateStatus(`Conversion of "${title}" failed: ${toError(error).message}`)
+      }
+      if (this.playlist.includes(converting)) {
+        this.renderConversionControls(this.playlist.indexOf(converting)) // Offer it again
+      }
+    }
+  }
+
+  // Swaps an item for its converted copy, reloading it if it is on screen
+  private useConvertedItem(index: number, url: string) {
+    const item = this.playlist[index]
+    const converted = { ...item, url, title: getMediaTitle(item, index) }
+    this.replaceItem(index, converted)
+    this.thumbnails.adopt(item, converted)
+    this.loadThumbnail(converted, index)
+    this.clearLoadError(index)
+
+    const row = this.getPlaylistRow(index)
+    row?.classList.remove('unsupported')
+    row?.removeAttribute('title')
+    row?.querySelector('.playlist-convert')?.remove()
+
+    if (index === this.currentIndex) {
+      this.loadCurrentMedia(this.isPlaybackActive)
+    }
+  }
+
+  // Read video durations up front so the playlist timeline has its full length before playback reaches them
+  private async probeDurations() {
+    const playlist = this.playlist
+
+    for (const [index, item] of playlist.entries()) {
+      // A stream's duration is only known from its manifest, once loaded
+      if (item.type === 'image' || item.type === 'stream' || this.itemDurations[index] !== undefined) continue
+
+      try {
+        const duration = await probeVideoDuration(item.url)
+        if (this.playlist !== playlist) return // Playlist was replaced meanwhile
+        this.itemDurations[index] = duration
+        this.refreshTimeline()
+      } catch (error) {
+        console.warn(`Could not probe duration of ${item.url}:`, error)
+      }
+    }
+  }
+
+  private async switchToMedia(index: number, autoPlay: boolean = false, startTime: number = 0) {
+    if (index >= 0 && index < this.playlist.length && index !== this.currentIndex) {
+      // Sync master video for upcoming transition
+      if (this.hasUserInteracted) {
+        this.syncMasterVideo()
+      }
+
+      // Update index and load new media; a newer switch supersedes this one
+      this.currentIndex = index
+      if (!await this.loadCurrentMedia(autoPlay, startTime)) return
+
+      this.updatePlaylist()
+      this.updatePlayButton()
+      this.updateTimeDisplay()
+      this.updateStatus(`Now on "${getMediaTitle(this.playlist[index], index)}" (${index + 1} of ${this.playlist.length})`)
+    }
+  }
+
+  private setupMediaEventListeners() {
+    if (!this.currentMedia) return
+
+    // Remove any existing event listeners first
+    this.removeMediaEventListeners()
+
+    // For persistent video, add a play event listener to sync with master video
+    if (isVideoMedia(this.currentMedia)) {
+      const playHandler = () => {
+        // Video started playing
+      }
+      this.currentMedia.addEventListener('play', playHandler, { once: true })
+    }
+
+    // Create new event listeners
+    const timeUpdateListener = () => {
+      if (this.currentMedia && isVideoMedia(this.currentMedia) && !this.holding) { // Only for videos
+        this.currentTime = Math.min(toItemTime(this.timing, this.currentMedia.currentTime), this.duration)
+        this.updateProgress()
+        this.updateTimeDisplay()
+        this.emitTimeUpdate()
+      }
+    }
+
+    const endedListener = () => {
+      // Only trigger if this is still the current media
+      if (isVideoMedia(this.currentMedia) && !this.holding) {
+        this.finishVideo(this.currentMedia)
+      }
+    }
+
+    const playListener = () => {
+      if (this.currentMedia && !this.playback.isSwitching && !this.holding) {
+        this.playback.transition('playing')
+        this.syncMusicPlayback()
+      }
+    }
+
+    const pauseListener = () => {
+      // Reaching the end also pauses; the ended listener decides what happens next
+      const ended = isVideoMedia(this.currentMedia) && this.currentMedia.ended
+      if (this.currentMedia && !this.playback.isSwitching && !this.holding && !ended) {
+        this.playback.transition('paused')
+        this.syncMusicPlayback()
+      }
+    }
+
+    const resizeListener = () => this.handleMediaResize()
+
+    // Store references for later cleanup
+    this.currentMediaEventListeners = {
+      timeupdate: timeUpdateListener,
+      ended: endedListener,
+      play: playListener,
+      pause: pauseListener,
+      resize: resizeListener
+    }
+
+    // Add event listeners
+    this.currentMedia.addEventListener('timeupdate', timeUpdateListener)
+    this.currentMedia.addEventListener('ended', endedListener)
+    this.currentMedia.addEventListener('play', playListener)
+    this.currentMedia.addEventListener('pause', pauseListener)
+    this.currentMedia.addEventListener('resize', resizeListener)
+  }
+
+  private removeMediaEventListeners() {
+    if (this.currentMedia && Object.keys(this.currentMediaEventListeners).length > 0) {
+      // Remove all stored event listeners
+      Object.entries(this.currentMediaEventListeners).forEach(([event, listener]) => {
+        this.currentMedia!.removeEventListener(event, listener)
+      })
+      this.currentMediaEventListeners = {}
+    }
+  }
+
+  private goToNextMedia(autoPlay: boolean = false) {
+    if (this.playlist.length === 0) return
+    const nextIndex = this.playOrder.takeNext(this.playlist, this.currentIndex, 'skip')
+    this.renderUpNext()
+    if (nextIndex === null) {
+      this.updateStatus('This is the last item')
+    } else if (nextIndex === this.currentIndex) {
+      this.replayCurrentMedia(autoPlay) // Queued up again
+    } else {
+      this.switchToMedia(nextIndex, autoPlay)
+    }
+  }
+
+  // Shuffled playback goes back through what actually played
+  private goToPreviousMedia(autoPlay: boolean = false) {
+    if (this.playlist.length === 0) return
+    const prevIndex = this.playOrder.takePrevious(this.playlist, this.currentIndex)
+    if (prevIndex === null) {
+      this.updateStatus(this.playOrder.mode === 'shuffle' ? 'Nothing played before this item' : 'This is the first item')
+    } else {
+      this.switchToMedia(prevIndex, autoPlay)
+    }
+  }
+
+  // Starts the current item over, as the next switch would for another item
+  private async replayCurrentMedia(autoPlay: boolean) {
+    if (this.hasUserInteracted) {
+      this.syncMasterVideo()
+    }
+    if (!await this.loadCurrentMedia(autoPlay)) return
+    this.updatePlayButton()
+    this.updateTimeDisplay()
+  }
+
+  // 'stop' mode ran out of items: stay on the last frame, paused
+  private stopAtEnd() {
+    this.stoppedAtEnd = true
+    this.clearImageTimer()
+    if (isVideoMedia(this.currentMedia) && !this.currentMedia.paused) {
+      this.currentMedia.pause() // Ignored by the pause listener once paused below
+    }
+    this.playback.transition('paused')
+    this.syncMasterVideo()
+    this.syncMusicPlayback()
+    this.updateStatus('Reached the end of the playlist')
+  }
+
+  private updatePlayButton() {
+    if (this.destroyed) return
+    const icon = this.isPlaybackActive ? '⏸' : '▶'
+    const label = this.isPlaybackActive ? 'Pause' : 'Play'
+    const overlay = this.container.querySelector('.play-overlay-btn') as HTMLButtonElement
+    for (const button of [this.playButton, overlay]) {
+      button.textContent = icon
+      button.setAttribute('aria-label', label)
+    }
+  }
+
+  private emitTimeUpdate() {
+    this.emit('timeupdate', { index: this.currentIndex, currentTime: this.currentTime, duration: this.duration })
+    if (Date.now() - this.lastSessionSave > SESSION_SAVE_INTERVAL * 1000) {
+      this.saveSession()
+    }
+  }
+
+  // The current item is done: report it, then move on as the playback mode says
+  private handleItemEnded() {
+    const index = this.currentIndex
+    this.stalledItem = null // Played through, so a later stall gets a retry again
+    this.emit('ended', { index, item: this.playlist[index] })
+    if (this.playOrder.isEndOfRound(this.playlist, index)) {
+      this.emit('playlistend', { count: this.playlist.length })
+    }
+
+    const nextIndex = this.playOrder.takeNext(this.playlist, index, 'ended')
+    this.renderUpNext()
+    if (nextIndex === null) {
+      this.stopAtEnd()
+    } else if (nextIndex === index) {
+      this.replayCurrentMedia(true)
+    } else {
+      this.switchToMedia(nextIndex, true)
+    }
+  }
+
+  private updateModeButton() {
+    const { icon, title } = PLAYBACK_MODE_LABELS[this.playOrder.mode]
+    this.modeButton.textContent = icon
+    this.modeButton.title = `${title} (click to change)`
+    this.modeButton.setAttribute('aria-label', `Playback mode: ${title}`)
+  }
+
+  private updateMuteButton() {
+    this.muteButton.textContent = this.isMuted ? '🔇' : '🔊'
+    this.muteButton.setAttribute('aria-label', this.isMuted ? 'Unmute' : 'Mute')
+  }
+
+  // The queue or playback mode changed what plays next: show the queue and preload the next item
+  private updateUpcoming() {
+    this.renderUpNext()
+    if (this.currentMedia) {
+      const nextIndex = this.playOrder.peekNext(this.playlist, this.currentIndex, 'ended')
+      this.preloader?.update(this.playlist, this.currentIndex, nextIndex)
+    }
+  }
+
+  // Only the queue: while switching, the preloader must keep the item being switched to
+  private renderUpNext() {
+    if (this.destroyed) return
+    const queue = this.playOrder.upNext
+    this.upNextElement.hidden = queue.length === 0
+    this.upNextElement.querySelector('.up-next-items')!.innerHTML = queue.map((item, queueIndex) => `
+      <li class="up-next-item" data-queue-index="${queueIndex}" draggable="true">
+        <span class="playlist-thumbnail" aria-hidden="true">${MEDIA_ICONS[item.type]}</span>
+        <span class="playlist-title">${escapeHtml(getMediaTitle(item, this.playlist.indexOf(item)))}</span>
+        <button class="up-next-remove" data-queue-index="${queueIndex}" title="Remove from up next" aria-label="Remove from up next">✕</button>
+      </li>
+    `).join('')
+  }
+
+  private setupUpNextListeners() {
+    const { signal } = this.listenerAbort
+    const list = this.upNextElement.querySelector('.up-next-items') as HTMLElement
+    const getRow = (e: Event) => (e.target as HTMLElement).closest('.up-next-item') as HTMLElement | null
+
+    list.addEventListener('click', (e) => {
+      const removeButton = (e.target as HTMLElement).closest('.up-next-remove') as HTMLElement | null
+      if (removeButton) {
+        this.dequeue(parseInt(removeButton.dataset.queueIndex!))
+      }
+    }, { signal })
+
+    // Reordering works like in the playlist
+    const clearDropMarkers = () => {
+      list.querySelectorAll('.drop-before, .drop-after').forEach(row => row.classList.remove('drop-before', 'drop-after'))
+    }
+    list.addEventListener('dragstart', (e) => {
+      const row = getRow(e)
+      if (!row) return
+      this.draggedQueueIndex = parseInt(row.dataset.queueIndex!)
+      row.classList.add('dragging')
+      e.dataTransfer!.effectAllowed = 'move'
+      e.dataTransfer!.setData('text/plain', row.dataset.queueIndex!)
+    }, { signal })
+    list.addEventListener('dragover', (e) => {
+      const row = getRow(e)
+      if (this.draggedQueueIndex === null || !row) return
+      e.preventDefault()
+      e.dataTransfer!.dropEffect = 'move'
+      const rect = row.getBoundingClientRect()
+      clearDropMarkers()
+      row.classList.add(e.clientY > rect.top + rect.height / 2 ? 'drop-after' : 'drop-before')
+    }, { signal })
+    list.addEventListener('drop', (e) => {
+      const row = getRow(e)
+      if (this.draggedQueueIndex === null || !row) return
+      e.preventDefault()
+      const target = parseInt(row.dataset.queueIndex!) + (row.classList.contains('drop-after') ? 1 : 0)
+      this.moveQueued(this.draggedQueueIndex, target > this.draggedQueueIndex ? target - 1 : target)
+    }, { signal })
+    list.addEventListener('dragend', () => {
+      this.draggedQueueIndex = null
+      clearDropMarkers()
+      list.querySelector('.dragging')?.classList.remove('dragging')
+    }, { signal })
+  }
+
+  private updateProgress() {
+    // Nothing to seek in a live stream
+    const live = this.duration === Infinity
+    this.progressBar.disabled = live
+    if (live) {
+      this.progressBar.value = '100'
+      return
+    }
+
+    if (this.timelineMode === 'playlist') {
+      if (this.timeline.totalDuration > 0) {
+        this.progressBar.value = ((this.getGlobalTime() / this.timeline.totalDuration) * 100).toString()
+      }
+      return
+    }
+
+    // The bar spans the time this item owns, excluding the overlap with the next item's transition
+    const outPoint = this.getOutPoint()
+    if (outPoint > 0) {
+      const progress = Math.min(this.currentTime / outPoint, 1) * 100
+      this.progressBar.value = progress.toString()
+    }
+  }
+
+  private updateTimeDisplay() {
+    let time: number
+    let total: string
+    if (this.duration === Infinity) {
+      time = this.currentTime
+      total = 'LIVE'
+    } else if (this.timelineMode === 'playlist') {
+      time = this.getGlobalTime()
+      total = formatTime(this.timeline.totalDuration)
+    } else {
+      const outPoint = this.getOutPoint()
+      time = Math.min(this.currentTime, outPoint)
+      total = formatTime(outPoint)
+    }
+    this.timeDisplay.textContent = `${formatTime(time)} / ${total}`
+    // Screen readers get the time from the progress bar instead of its percentage
+    this.progressBar.setAttribute('aria-valuetext', `${formatTime(time)} of ${total === 'LIVE' ? 'live stream' : total}`)
+  }
+
+  private getPlaylistRow(index: number) {
+    return this.playlistElement.querySelector(`.playlist-item[data-index="${index}"]`) as HTMLElement | null
+  }
+
+  private updatePlaylist() {
+    const items = this.playlistElement.querySelectorAll('.playlist-item')
+    items.forEach((item, index) => {
+      const current = index === this.currentIndex
+      item.classList.toggle('active', current)
+      item.toggleAttribute('aria-current', current)
+      if (!this.playlistElement.contains(document.activeElement)) {
+        item.setAttribute('tabindex', current ? '0' : '-1') // Tab comes back in on the current item
+      }
+    })
+  }
+
+  // Moves keyboard focus to a playlist row, which becomes the one Tab lands on
+  private focusPlaylistRow(index: number) {
+    const row = this.getPlaylistRow(index)
+    if (!row) return
+    this.playlistElement.querySelectorAll('.playlist-item').forEach(item => item.setAttribute('tabindex', '-1'))
+    row.setAttribute('tabindex', '0')
+    row.focus()
+  }
+
+  private updateStatus(message: string) {
+    this.statusDisplay.textContent = message
+    console.log('Mediabunny Player:', message)
+  }
+
+  private setupBackgroundMusic(options: MusicOptions) {
+    this.music = new MusicEngine(options, this.isMuted) // Use device-specific mute state
+    this.music.onLoad = () => {
+      const muteInfo = this.isMuted ? ' (muted)' : ' (unmuted)'
+      this.updateStatus(`Background music loaded${muteInfo}`)
+    }
+    this.music.onLoadError = () => {
+      this.updateStatus('Background music unavailable')
+    }
+  }
+
+  private setupMasterVideo() {
+    this.masterVideo = document.createElement('video')
+    this.masterVideo.src = MASTER_VIDEO_URL
+    this.masterVideo.loop = true
+    this.masterVideo.muted = true // Must be muted for autoplay
+    this.masterVideo.playsInline = true
+    this.masterVideo.style.display = 'none'
+    this.masterVideo.style.position = 'absolute'
+    this.masterVideo.style.width = '1px'
+    this.masterVideo.style.height = '1px'
+    this.masterVideo.style.opacity = '0'
+    this.masterVideo.style.pointerEvents = 'none'
+    document.body.appendChild(this.masterVideo)
+    
+
+  }
+
+  private setupPersistentVideo() {
+    // Create a single video element that we'll reuse for all video content
+    this.persistentVideo = document.createElement('video')
+    this.persistentVideo.crossOrigin = 'anonymous'
+    this.persistentVideo.playsInline = true
+    this.persistentVideo.controls = false
+    this.persistentVideo.muted = this.isMuted // Use device-specific mute state
+    this.persistentVideo.style.display = 'none' // Hidden initially
+    document.body.appendChild(this.persistentVideo)
+    
+
+  }
+
+  private setupFrameVideo() {
+    if (this.videoBackend !== 'mediabunny') return
+
+    // Single reusable canvas renderer, mirroring the persistent video element
+    this.frameVideo = new FrameVideo()
+    this.frameVideo.muted = this.isMuted
+  }
+
+  private async startMasterVideo() {
+    if (!this.masterVideo || this.hasUserInteracted) return
+    
+    try {
+      await this.masterVideo.play()
+      this.hasUserInteracted = true
+      
+      // Traditional volume control is ready
+      
+
+    } catch (error) {
+      console.warn('❌ Master video failed to start:', error)
+    }
+  }
+
+  private syncMasterVideo() {
+    if (!this.masterVideo || !this.hasUserInteracted) return
+    
+    if (this.isPlaybackActive) {
+      if (this.masterVideo.paused) {
+        this.masterVideo.play().catch(e => 
+          console.warn('Master video sync play failed:', e)
+        )
+      }
+    } else {
+      if (!this.masterVideo.paused) {
+        this.masterVideo.pause()
+      }
+    }
+  }
+
+
+
+  private adjustMusicVolume(mediaItem: MediaItem) {
+    // Per-item settings override the defaults for the media type
+    const music = mediaItem.music
+    if (music?.track !== undefined) {
+      this.music.selectTrack(music.track)
+    }
+
+    if (music?.muted) {
+      this.music.setLevel(0)
+    } else if (mediaItem.type === 'image' || music?.duck === false) {
+      this.music.setLevel(music?.volume ?? this.musicVolumes.image)
+    } else {
+      // Duck under the item's own sound, following its level when it can be metered
+      const duckedLevel = music?.volume ?? this.musicVolumes[mediaItem.type]
+      const meter = this.music.ducksByLevel ? this.getVideoLevelMeter() : null
+      if (meter) {
+        this.music.setLevel(this.musicVolumes.image, { source: meter, level: duckedLevel })
+      } else {
+        this.music.setLevel(duckedLevel)
+      }
+    }
+  }
+
+  // Gathers subtitle files and embedded tracks for an item, then re-selects the preferred language
+  private async loadSubtitles(mediaItem: MediaItem) {
+    const token = ++this.subtitleLoadToken
+    this.subtitleTracks.forEach(track => track.release?.())
+    this.subtitleTracks = []
+    this.updateSubtitleControls()
+    if (mediaItem.type !== 'video' && mediaItem.type !== 'stream') return
+
+    // Streams only carry the subtitle files listed with them
+    const video = this.currentMedia
+    const [files, embeddedLanguages] = await Promise.all([
+      Promise.allSettled((mediaItem.subtitles ?? []).map(file => loadSubtitleFile(file))),
+      mediaItem.type === 'video' ? listEmbeddedSubtitleLanguages(mediaItem.url).catch(() => []) : []
+    ])
+    if (token !== this.subtitleLoadToken) return
+
+    const tracks: SubtitleTrack[] = []
+    files.forEach(result => {
+      if (result.status === 'fulfilled') {
+        tracks.push(result.value)
+      } else {
+        console.warn('Subtitle file failed to load:', result.reason)
+      }
+    })
+
+    // Embedded cues can only be read where the browser demuxes them itself
+    const inBand = video instanceof HTMLVideoElement ? getInBandTracks(video) : []
+    tracks.push(...inBand)
+    if (embeddedLanguages.length > inBand.length) {
+      console.log(`${embeddedLanguages.length - inBand.length} embedded subtitle track(s) (${embeddedLanguages.join(', ')}) cannot be rendered by this video backend`)
+    }
+
+    this.subtitleTracks = tracks
+    const preferred = tracks.findIndex(track => track.language === this.subtitleLanguage)
+    const fallback = tracks.findIndex(track => track.default)
+    this.subtitleIndex = preferred !== -1 ? preferred : Math.max(0, fallback)
+    this.updateSubtitleControls()
+  }
+
+  private toggleSubtitles() {
+    if (this.subtitleTracks.length === 0) return
+    this.subtitlesEnabled = !this.subtitlesEnabled
+    this.updateSubtitleControls()
+    this.updateStatus(`Subtitles ${this.subtitlesEnabled ? 'on' : 'off'}`)
+  }
+
+  private updateSubtitleControls() {
+    const hasTracks = this.subtitleTracks.length > 0
+    this.ccButton.disabled = !hasTracks
+    this.ccButton.classList.toggle('active', hasTracks && this.subtitlesEnabled)
+    this.ccButton.setAttribute('aria-pressed', String(hasTracks && this.subtitlesEnabled))
+
+    this.subtitleSelect.hidden = this.subtitleTracks.length < 2
+    this.subtitleSelect.innerHTML = this.subtitleTracks.map((track, index) => {
+      return `<option value="${index}" ${index === this.subtitleIndex ? 'selected' : ''}>${escapeHtml(track.label)}</option>`
+    }).join('')
+
+    this.renderSubtitles()
+  }
+
+  // Copies the composited frame, overlays included, into the recording
+  private captureRecordingFrame() {
+    const recorder = this.recorder
+    if (!recorder) return
+    recorder.drawFrame(this.compositor.canvas)
+    this.connectRecordingAudio()
+
+    const time = formatTime(recorder.duration)
+    if (this.recordTime && this.recordTime.textContent !== time) {
+      this.recordTime.textContent = time
+    }
+  }
+
+  private renderSubtitles() {
+    const track = this.subtitlesEnabled ? this.subtitleTracks[this.subtitleIndex] : undefined
+    const text = track && isVideoMedia(this.currentMedia) ? track.getText(this.currentMedia.currentTime) : null
+    if (text === this.subtitleText) return
+
+    this.subtitleText = text
+    this.subtitleOverlay.innerHTML = text ? `<span class="subtitle-cue">${formatCueHtml(text)}</span>` : ''
+  }
+
+  private getVideoLevelMeter() {
+    const video = this.currentMedia
+    if (video instanceof FrameVideo) {
+      return () => video.getAudioLevel()
+    }
+    if (video instanceof HTMLVideoElement) {
+      return createElementLevelMeter(video)
+    }
+    return null
+  }
+
+  private syncMusicPlayback() {
+    if (this.isPlaying) {
+      this.music.play()
+    } else if (!this.playback.isSwitching) {
+      // Only pause music if we're not in the middle of switching media
+      // This prevents music from restarting during transitions
+      this.music.pause()
+    }
+
+    // Also sync master video
+    this.syncMasterVideo()
+  }
+}
+
+function isVideoMedia(media: MediaElement | null): media is VideoMedia {
+  return media instanceof HTMLVideoElement || media instanceof FrameVideo
+}
+
+// The DOM node that displays a media element
+function getMediaNode(media: MediaElement): HTMLVideoElement | HTMLImageElement | HTMLCanvasElement {
+  return media instanceof FrameVideo ? media.canvas : media
+}
+
+function getMediaSize(media: MediaElement): [number, number] {
+  if (media instanceof HTMLImageElement) {
+    return [media.naturalWidth, media.naturalHeight]
+  }
+  return [media.videoWidth, media.videoHeight]
+}
+
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
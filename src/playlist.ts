@@ -0,0 +1,606 @@
+import { isDashManifest, isHlsManifest } from './stream-manifest.ts'
+
+// 'stream' is an HLS or DASH stream, played with adaptive bitrate
+export type MediaType = 'video' | 'image' | 'audio' | 'stream'
+
+// What an audio item shows: its samples as a waveform, or a live frequency spectrum
+export type AudioVisualization = 'waveform' | 'spectrum'
+
+export type MediaMusicSettings = {
+  volume?: number // Background music volume (0-1) while this item is shown; for videos, the level it ducks to
+  muted?: boolean // Silence background music for this item
+  track?: number | string // Crossfade to this music track (index or URL) when the item starts
+  duck?: boolean // Videos only: false keeps the music at full level under this video's sound
+}
+
+export type TransitionType = 'cut' | 'crossfade' | 'slide' | 'dip-to-black'
+
+export type SlideDirection = 'left' | 'right' | 'up' | 'down'
+
+// How an item enters; the outgoing item overlaps with it for `duration` seconds
+export type MediaTransition = {
+  type: TransitionType
+  duration?: number // In seconds, defaults to DEFAULT_TRANSITION_DURATION
+  direction?: SlideDirection // For 'slide': where the incoming item moves towards (default 'left')
+}
+
+// One end of a Ken Burns move: zoom factor plus the focal point (0-1 across the image)
+export type KenBurnsFrame = {
+  scale: number
+  x: number
+  y: number
+}
+
+export type KenBurnsEffect = {
+  from?: KenBurnsFrame
+  to?: KenBurnsFrame
+}
+
+export type OverlayPosition =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right'
+
+// Text and/or a graphic drawn over the media: a title card, a lower third, a watermark.
+// Sizes are fractions of the frame, so an overlay looks the same at any resolution.
+export type MediaOverlay = {
+  text?: string // '\n' starts a new line
+  image?: string // Logo or other graphic, drawn above the text
+  position?: OverlayPosition // Default 'bottom-left'
+  margin?: number // Gap to the frame edges, as a fraction of its height (default 0.04)
+  imageWidth?: number // Fraction of the frame width (default 0.15)
+  font?: string // CSS font family (default system-ui, sans-serif)
+  fontSize?: number // Fraction of the frame height (default 0.05)
+  fontWeight?: string // CSS font weight (default '600')
+  color?: string // Default white
+  background?: string // Fill behind the text, e.g. 'rgba(0, 0, 0, 0.5)'; none by default
+  opacity?: number // 0-1 (default 1)
+  in?: number // Seconds into the item it appears (default: from the start)
+  out?: number // Seconds into the item it disappears; negative counts back from the item's end (default: to the end)
+  fade?: number // Seconds of fade after the in point and before the out point, where those are set (default 0.5)
+}
+
+// How an item fills the frame: letterboxed, cropped to cover it, stretched, or at its own pixel size
+// (centered, and cropped where larger)
+export type FitMode = 'contain' | 'cover' | 'fill' | 'native'
+
+// An external subtitle file; SRT and WebVTT are detected from the content
+export type SubtitleFile = {
+  url: string
+  language?: string // BCP 47 tag, e.g. 'en' or 'pt-BR'
+  label?: string // Shown in the language selector; defaults to the language
+  default?: boolean // Selected when the item starts
+}
+
+export type MediaItem = {
+  url: string
+  type: MediaType
+  title?: string
+  duration?: number // For images, in seconds
+  start?: number // Videos, streams and audio: in point, in seconds of the source (default 0)
+  end?: number // Videos, streams and audio: out point, in seconds of the source (default its natural end)
+  playbackRate?: number // Videos, streams and audio: speed, 0.25-4 (default 1)
+  hold?: number // Videos and streams: seconds to keep the last frame up after the out point (default 0)
+  cover?: string // Audio only: image shown while it plays
+  visualization?: AudioVisualization // Audio only: drawn under the cover, or on its own (default 'waveform' without a cover)
+  music?: MediaMusicSettings
+  transition?: MediaTransition
+  kenBurns?: KenBurnsEffect | boolean // Images only; true uses a gentle default zoom
+  fit?: FitMode // Overrides the player's fit mode (default 'contain'); Ken Burns images always cover
+  subtitles?: SubtitleFile[] // Videos and streams
+  overlays?: MediaOverlay[] // Drawn on top of the playlist-wide overlays
+}
+
+// JSON manifest shape: either a bare array of entries or an object with an `items` array
+export type PlaylistManifest = {
+  title?: string
+  overlays?: unknown[] // Shown over every item, e.g. a watermark
+  items: unknown[]
+}
+
+// A manifest URL (JSON or extended M3U), an inline manifest object, or ready-made items
+export type PlaylistSource = string | PlaylistManifest | MediaItem[]
+
+export type PlaylistEntryError = {
+  index: number // Zero-based position of the entry in the source
+  message: string
+}
+
+export type PlaylistLoadResult = {
+  title?: string
+  overlays?: MediaOverlay[]
+  items: MediaItem[]
+  errors: PlaylistEntryError[]
+}
+
+export const DEFAULT_IMAGE_DURATION = 5
+export const DEFAULT_TRANSITION_DURATION = 1
+// Same range browsers allow on <video> without muting the audio
+const MIN_PLAYBACK_RATE = 0.25
+const MAX_PLAYBACK_RATE = 4
+
+const TRANSITION_TYPES: TransitionType[] = ['cut', 'crossfade', 'slide', 'dip-to-black']
+const SLIDE_DIRECTIONS: SlideDirection[] = ['left', 'right', 'up', 'down']
+const OVERLAY_POSITIONS: OverlayPosition[] = ['top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right']
+
+const AUDIO_VISUALIZATIONS: AudioVisualization[] = ['waveform', 'spectrum']
+const FIT_MODES: FitMode[] = ['contain', 'cover', 'fill', 'native']
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'bmp', 'svg']
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'aac', 'wav', 'flac', 'ogg', 'oga', 'opus']
+const STREAM_EXTENSIONS = ['m3u8', 'mpd']
+
+export async function loadPlaylistSource(source: PlaylistSource): Promise<PlaylistLoadResult> {
+  if (typeof source !== 'string') {
+    return parsePlaylistManifest(source)
+  }
+
+  const response = await fetch(source)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch playlist ${source}: ${response.status} ${response.statusText}`)
+  }
+
+  const text = await response.text()
+  const baseUrl = new URL(source, document.baseURI).href
+
+  // Sniff the content rather than trusting the extension or content type. A stream manifest
+  // given as the playlist plays as a playlist of that one stream.
+  if (isHlsManifest(text) || isDashManifest(text)) {
+    return { items: [{ url: baseUrl, type: 'stream' }], errors: [] }
+  }
+  if (text.trimStart().startsWith('#EXTM3U')) {
+    return parseM3U(text, baseUrl)
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error(`Playlist ${source} is neither JSON nor extended M3U`)
+  }
+
+  return parsePlaylistManifest(data, baseUrl)
+}
+
+export function parsePlaylistManifest(data: unknown, baseUrl?: string): PlaylistLoadResult {
+  let title: string | undefined
+  let overlays: MediaOverlay[] | undefined
+  let entries: unknown[]
+
+  if (Array.isArray(data)) {
+    entries = data
+  } else if (isRecord(data) && Array.isArray(data.items)) {
+    entries = data.items
+    title = typeof data.title === 'string' ? data.title : undefined
+    if (data.overlays !== undefined) {
+      overlays = validateOverlays(data.overlays, 'the playlist', baseUrl)
+    }
+  } else {
+    throw new Error('Playlist manifest must be an array or an object with an "items" array')
+  }
+
+  const result: PlaylistLoadResult = { title, overlays, items: [], errors: [] }
+
+  entries.forEach((entry, index) => {
+    try {
+      result.items.push(validateMediaItem(entry, baseUrl))
+    } catch (error) {
+      result.errors.push({ index, message: error instanceof Error ? error.message : String(error) })
+    }
+  })
+
+  return result
+}
+
+export function parseM3U(text: string, baseUrl?: string): PlaylistLoadResult {
+  const lines = text.split(/\r?\n/).map(line => line.trim())
+  if (lines[0] !== '#EXTM3U') {
+    throw new Error('M3U playlist must start with #EXTM3U')
+  }
+
+  const result: PlaylistLoadResult = { items: [], errors: [] }
+  let pendingInfo: { duration?: number, title?: string } | null = null
+  let entryIndex = 0
+
+  for (const line of lines.slice(1)) {
+    if (!line) continue
+
+    if (line.startsWith('#EXTINF:')) {
+      // #EXTINF:<duration>[ attributes],<title>
+      const info = line.slice('#EXTINF:'.length)
+      const commaIndex = info.indexOf(',')
+      const durationText = (commaIndex === -1 ? info : info.slice(0, commaIndex)).trim().split(/\s+/)[0]
+      const duration = parseFloat(durationText)
+      const title = commaIndex === -1 ? '' : info.slice(commaIndex + 1).trim()
+
+      pendingInfo = {
+        duration: duration > 0 ? duration : undefined, // -1 means "unknown" in M3U
+        title: title || undefined
+      }
+      continue
+    }
+
+    if (line.startsWith('#')) continue // Other directives and comments
+
+    try {
+      const type = guessMediaType(line)
+      result.items.push(validateMediaItem({
+        url: line,
+        type,
+        title: pendingInfo?.title,
+        // EXTINF durations only drive images; videos play to their natural end
+        duration: type === 'image' ? pendingInfo?.duration : undefined
+      }, baseUrl))
+    } catch (error) {
+      result.errors.push({ index: entryIndex, message: error instanceof Error ? error.message : String(error) })
+    }
+
+    pendingInfo = null
+    entryIndex++
+  }
+
+  return result
+}
+
+export function validateMediaItem(entry: unknown, baseUrl?: string): MediaItem {
+  if (typeof entry === 'string') {
+    entry = { url: entry }
+  }
+
+  if (!isRecord(entry)) {
+    throw new Error('Entry must be an object or a URL string')
+  }
+
+  if (typeof entry.url !== 'string' || !entry.url.trim()) {
+    throw new Error('Entry is missing a "url"')
+  }
+
+  let url: string
+  try {
+    url = new URL(entry.url.trim(), baseUrl ?? document.baseURI).href
+  } catch {
+    throw new Error(`Invalid URL "${entry.url}"`)
+  }
+
+  const type = entry.type ?? guessMediaType(url)
+  if (type !== 'video' && type !== 'image' && type !== 'audio' && type !== 'stream') {
+    throw new Error(`Unsupported media type "${String(type)}" for ${url}`)
+  }
+
+  const item: MediaItem = { url, type }
+
+  if (entry.title !== undefined) {
+    if (typeof entry.title !== 'string') {
+      throw new Error(`"title" must be a string for ${url}`)
+    }
+    item.title = entry.title
+  }
+
+  if (entry.duration !== undefined) {
+    if (typeof entry.duration !== 'number' || !(entry.duration > 0)) {
+      throw new Error(`"duration" must be a positive number of seconds for ${url}`)
+    }
+    item.duration = entry.duration
+  }
+
+  for (const key of ['start', 'end', 'hold'] as const) {
+    const value = entry[key]
+    if (value === undefined) continue
+    if (type === 'image' || (key === 'hold' && type === 'audio')) {
+      throw new Error(`"${key}" is only supported on ${key === 'hold' ? 'video and stream' : 'video, stream and audio'} items (${url})`)
+    }
+    if (typeof value !== 'number' || !(value >= 0) || !Number.isFinite(value)) {
+      throw new Error(`"${key}" must be a non-negative number of seconds for ${url}`)
+    }
+    item[key] = value
+  }
+  if (item.end !== undefined && item.end <= (item.start ?? 0)) {
+    throw new Error(`"end" must come after "start" for ${url}`)
+  }
+
+  if (entry.playbackRate !== undefined) {
+    if (type === 'image') {
+      throw new Error(`"playbackRate" is only supported on video, stream and audio items (${url})`)
+    }
+    if (typeof entry.playbackRate !== 'number' || !(entry.playbackRate >= MIN_PLAYBACK_RATE && entry.playbackRate <= MAX_PLAYBACK_RATE)) {
+      throw new Error(`"playbackRate" must be between ${MIN_PLAYBACK_RATE} and ${MAX_PLAYBACK_RATE} for ${url}`)
+    }
+    item.playbackRate = entry.playbackRate
+  }
+
+  if (entry.music !== undefined) {
+    item.music = validateMusicSettings(entry.music, url, baseUrl)
+  }
+
+  if (entry.transition !== undefined) {
+    item.transition = validateTransition(entry.transition, url)
+  }
+
+  if (entry.kenBurns !== undefined) {
+    if (type !== 'image') {
+      throw new Error(`"kenBurns" is only supported on image items (${url})`)
+    }
+    item.kenBurns = validateKenBurns(entry.kenBurns, url)
+  }
+
+  if (entry.fit !== undefined) {
+    if (!FIT_MODES.includes(entry.fit as FitMode)) {
+      throw new Error(`"fit" must be one of ${FIT_MODES.join(', ')} for ${url}`)
+    }
+    item.fit = entry.fit as FitMode
+  }
+
+  if (entry.subtitles !== undefined) {
+    if (type !== 'video' && type !== 'stream') {
+      throw new Error(`"subtitles" are only supported on video and stream items (${url})`)
+    }
+    if (!Array.isArray(entry.subtitles)) {
+      throw new Error(`"subtitles" must be an array for ${url}`)
+    }
+    item.subtitles = entry.subtitles.map(subtitle => validateSubtitleFile(subtitle, url, baseUrl))
+  }
+
+  if (entry.overlays !== undefined) {
+    item.overlays = validateOverlays(entry.overlays, url, baseUrl)
+  }
+
+  if (entry.cover !== undefined) {
+    if (type !== 'audio') {
+      throw new Error(`"cover" is only supported on audio items (${url})`)
+    }
+    if (typeof entry.cover !== 'string' || !entry.cover.trim()) {
+      throw new Error(`"cover" must be an image URL for ${url}`)
+    }
+    try {
+      item.cover = new URL(entry.cover.trim(), baseUrl ?? document.baseURI).href
+    } catch {
+      throw new Error(`Invalid cover URL "${entry.cover}" for ${url}`)
+    }
+  }
+
+  if (entry.visualization !== undefined) {
+    if (type !== 'audio') {
+      throw new Error(`"visualization" is only supported on audio items (${url})`)
+    }
+    if (!AUDIO_VISUALIZATIONS.includes(entry.visualization as AudioVisualization)) {
+      throw new Error(`"visualization" must be one of ${AUDIO_VISUALIZATIONS.join(', ')} for ${url}`)
+    }
+    item.visualization = entry.visualization as AudioVisualization
+  }
+
+  return item
+}
+
+// `owner` names what the overlays belong to in error messages
+export function validateOverlays(overlays: unknown, owner: string, baseUrl?: string): MediaOverlay[] {
+  if (!Array.isArray(overlays)) {
+    throw new Error(`"overlays" must be an array for ${owner}`)
+  }
+  return overlays.map(overlay => validateOverlay(overlay, owner, baseUrl))
+}
+
+function validateOverlay(overlay: unknown, owner: string, baseUrl?: string): MediaOverlay {
+  // Shorthand: "Title text"
+  if (typeof overlay === 'string') {
+    overlay = { text: overlay }
+  }
+
+  if (!isRecord(overlay)) {
+    throw new Error(`Each entry in "overlays" must be an object or a string for ${owner}`)
+  }
+
+  const result: MediaOverlay = {}
+
+  for (const key of ['text', 'font', 'fontWeight', 'color', 'background'] as const) {
+    if (overlay[key] === undefined) continue
+    if (typeof overlay[key] !== 'string') {
+      throw new Error(`"overlays.${key}" must be a string for ${owner}`)
+    }
+    result[key] = overlay[key]
+  }
+
+  if (overlay.image !== undefined) {
+    if (typeof overlay.image !== 'string' || !overlay.image.trim()) {
+      throw new Error(`"overlays.image" must be a URL for ${owner}`)
+    }
+    try {
+      result.image = new URL(overlay.image.trim(), baseUrl ?? document.baseURI).href
+    } catch {
+      throw new Error(`Invalid overlay image URL "${overlay.image}" for ${owner}`)
+    }
+  }
+
+  if (!result.text && !result.image) {
+    throw new Error(`Each overlay needs "text" or an "image" for ${owner}`)
+  }
+
+  if (overlay.position !== undefined) {
+    if (!OVERLAY_POSITIONS.includes(overlay.position as OverlayPosition)) {
+      throw new Error(`"overlays.position" must be one of ${OVERLAY_POSITIONS.join(', ')} for ${owner}`)
+    }
+    result.position = overlay.position as OverlayPosition
+  }
+
+  // Fractions of the frame
+  for (const key of ['margin', 'imageWidth', 'fontSize', 'opacity'] as const) {
+    const value = overlay[key]
+    if (value === undefined) continue
+    if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+      throw new Error(`"overlays.${key}" must be between 0 and 1 for ${owner}`)
+    }
+    result[key] = value
+  }
+
+  for (const key of ['in', 'out', 'fade'] as const) {
+    const value = overlay[key]
+    if (value === undefined) continue
+    if (typeof value !== 'number' || !Number.isFinite(value) || (key !== 'out' && value < 0)) {
+      throw new Error(`"overlays.${key}" must be a${key === 'out' ? '' : ' non-negative'} number of seconds for ${owner}`)
+    }
+    result[key] = value
+  }
+
+  return result
+}
+
+function validateSubtitleFile(subtitle: unknown, url: string, baseUrl?: string): SubtitleFile {
+  // Shorthand: "captions.vtt"
+  if (typeof subtitle === 'string') {
+    subtitle = { url: subtitle }
+  }
+
+  if (!isRecord(subtitle) || typeof subtitle.url !== 'string' || !subtitle.url.trim()) {
+    throw new Error(`Each entry in "subtitles" needs a "url" for ${url}`)
+  }
+
+  const result: SubtitleFile = { url: '' }
+  try {
+    result.url = new URL(subtitle.url.trim(), baseUrl ?? document.baseURI).href
+  } catch {
+    throw new Error(`Invalid subtitle URL "${subtitle.url}" for ${url}`)
+  }
+
+  for (const key of ['language', 'label'] as const) {
+    if (subtitle[key] !== undefined) {
+      if (typeof subtitle[key] !== 'string') {
+        throw new Error(`"subtitles.${key}" must be a string for ${url}`)
+      }
+      result[key] = subtitle[key]
+    }
+  }
+
+  if (subtitle.default !== undefined) {
+    if (typeof subtitle.default !== 'boolean') {
+      throw new Error(`"subtitles.default" must be a boolean for ${url}`)
+    }
+    result.default = subtitle.default
+  }
+
+  return result
+}
+
+function validateTransition(transition: unknown, url: string): MediaTransition {
+  // Shorthand: "crossfade"
+  if (typeof transition === 'string') {
+    transition = { type: transition }
+  }
+
+  if (!isRecord(transition)) {
+    throw new Error(`"transition" must be an object or a transition type for ${url}`)
+  }
+
+  if (!TRANSITION_TYPES.includes(transition.type as TransitionType)) {
+    throw new Error(`"transition.type" must be one of ${TRANSITION_TYPES.join(', ')} for ${url}`)
+  }
+
+  const result: MediaTransition = { type: transition.type as TransitionType }
+
+  if (transition.duration !== undefined) {
+    if (typeof transition.duration !== 'number' || !(transition.duration > 0)) {
+      throw new Error(`"transition.duration" must be a positive number of seconds for ${url}`)
+    }
+    result.duration = transition.duration
+  }
+
+  if (transition.direction !== undefined) {
+    if (!SLIDE_DIRECTIONS.includes(transition.direction as SlideDirection)) {
+      throw new Error(`"transition.direction" must be one of ${SLIDE_DIRECTIONS.join(', ')} for ${url}`)
+    }
+    result.direction = transition.direction as SlideDirection
+  }
+
+  return result
+}
+
+function validateKenBurns(kenBurns: unknown, url: string): KenBurnsEffect | boolean {
+  if (typeof kenBurns === 'boolean') return kenBurns
+
+  if (!isRecord(kenBurns)) {
+    throw new Error(`"kenBurns" must be a boolean or an object for ${url}`)
+  }
+
+  const effect: KenBurnsEffect = {}
+  for (const key of ['from', 'to'] as const) {
+    const frame = kenBurns[key]
+    if (frame === undefined) continue
+
+    if (!isRecord(frame) || typeof frame.scale !== 'number' || typeof frame.x !== 'number' || typeof frame.y !== 'number') {
+      throw new Error(`"kenBurns.${key}" must have numeric scale, x and y for ${url}`)
+    }
+    if (frame.scale < 1 || frame.x < 0 || frame.x > 1 || frame.y < 0 || frame.y > 1) {
+      throw new Error(`"kenBurns.${key}" needs scale >= 1 and x/y between 0 and 1 for ${url}`)
+    }
+    effect[key] = { scale: frame.scale, x: frame.x, y: frame.y }
+  }
+
+  return effect
+}
+
+function validateMusicSettings(music: unknown, url: string, baseUrl?: string): MediaMusicSettings {
+  if (!isRecord(music)) {
+    throw new Error(`"music" must be an object for ${url}`)
+  }
+
+  const settings: MediaMusicSettings = {}
+
+  if (music.volume !== undefined) {
+    if (typeof music.volume !== 'number' || music.volume < 0 || music.volume > 1) {
+      throw new Error(`"music.volume" must be between 0 and 1 for ${url}`)
+    }
+    settings.volume = music.volume
+  }
+
+  if (music.muted !== undefined) {
+    if (typeof music.muted !== 'boolean') {
+      throw new Error(`"music.muted" must be a boolean for ${url}`)
+    }
+    settings.muted = music.muted
+  }
+
+  if (music.track !== undefined) {
+    if (typeof music.track === 'number' && Number.isInteger(music.track) && music.track >= 0) {
+      settings.track = music.track
+    } else if (typeof music.track === 'string' && music.track.trim()) {
+      try {
+        settings.track = new URL(music.track.trim(), baseUrl ?? document.baseURI).href
+      } catch {
+        throw new Error(`Invalid "music.track" URL "${music.track}" for ${url}`)
+      }
+    } else {
+      throw new Error(`"music.track" must be a track index or URL for ${url}`)
+    }
+  }
+
+  if (music.duck !== undefined) {
+    if (typeof music.duck !== 'boolean') {
+      throw new Error(`"music.duck" must be a boolean for ${url}`)
+    }
+    settings.duck = music.duck
+  }
+
+  return settings
+}
+
+export function getMediaTitle(item: MediaItem, index: number): string {
+  if (item.title) return item.title
+
+  let filename = item.url.split(/[?#]/)[0].split('/').pop() || ''
+  try {
+    filename = decodeURIComponent(filename)
+  } catch {
+    // Keep the raw filename if it isn't valid percent-encoding
+  }
+  return filename.replace(/\.[a-z0-9]+$/i, '') || `Media ${index + 1}`
+}
+
+function guessMediaType(url: string): MediaType {
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase() ?? ''
+  if (IMAGE_EXTENSIONS.includes(extension)) return 'image'
+  if (AUDIO_EXTENSIONS.includes(extension)) return 'audio'
+  if (STREAM_EXTENSIONS.includes(extension)) return 'stream'
+  return 'video'
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,201 @@
+import { FrameVideo } from './frame-video.ts'
+import type { MediaItem } from './playlist.ts'
+
+export type PreloadOptions = {
+  ahead?: number // Items after the current one to keep ready (default 1)
+  behind?: number // Items before the current one to keep ready (default 1)
+  memoryBudget?: number // Upper bound for preloaded decoded data, in bytes (default 256 MiB)
+}
+
+export type PreloadedMedia =
+  | { kind: 'image', url: string, element: HTMLImageElement, bytes: number }
+  | { kind: 'video', url: string, element: HTMLVideoElement, bytes: number }
+  | { kind: 'frame-video', url: string, video: FrameVideo, bytes: number }
+
+type PreloadEntry = {
+  url: string
+  promise: Promise<PreloadedMedia | null>
+  media: PreloadedMedia | null // Set once loading has finished
+  cancelled: boolean
+}
+
+const DEFAULT_MEMORY_BUDGET = 256 * 1024 * 1024
+// Rough number of decoded frames a <video> element keeps around after buffering its start
+const VIDEO_FRAME_ESTIMATE = 8
+// CanvasSink pool plus the display canvas
+const FRAME_VIDEO_FRAME_ESTIMATE = 3
+
+// Loads neighbouring playlist items in the background so switching to them is instant.
+// Ownership of a preloaded resource passes to the caller on take(); everything else is
+// released as soon as it falls outside the preload window or the memory budget.
+export class MediaPreloader {
+  private entries = new Map<string, PreloadEntry>()
+  private ahead: number
+  private behind: number
+  private memoryBudget: number
+  private useFrameVideo: boolean
+
+  constructor(options: PreloadOptions = {}, useFrameVideo = false) {
+    this.ahead = Math.max(0, options.ahead ?? 1)
+    this.behind = Math.max(0, options.behind ?? 1)
+    this.memoryBudget = options.memoryBudget ?? DEFAULT_MEMORY_BUDGET
+    this.useFrameVideo = useFrameVideo
+  }
+
+  // Re-targets the preload window around the current item. `nextIndex` is the item that plays next
+  // when that isn't the following one, as when it's queued up or shuffled; it's loaded first.
+  update(items: MediaItem[], currentIndex: number, nextIndex: number | null = null) {
+    const wanted = this.getWantedItems(items, currentIndex, nextIndex)
+    const wantedUrls = new Set(wanted.map(item => item.url))
+
+    // Release whatever the playlist has moved past
+    for (const [url, entry] of this.entries) {
+      if (!wantedUrls.has(url)) {
+        this.releaseEntry(entry)
+      }
+    }
+
+    for (const item of wanted) {
+      if (!this.entries.has(item.url)) {
+        this.startPreload(item)
+      }
+    }
+  }
+
+  isReady(url: string) {
+    return this.entries.get(url)?.media != null
+  }
+
+  // Hands over the preloaded resource for a URL (waiting for it if it is still loading), or null
+  async take(url: string): Promise<PreloadedMedia | null> {
+    const entry = this.entries.get(url)
+    if (!entry) return null
+
+    this.entries.delete(url)
+    const media = await entry.promise
+    return entry.cancelled ? null : media
+  }
+
+  clear() {
+    this.entries.forEach(entry => this.releaseEntry(entry))
+  }
+
+  private getWantedItems(items: MediaItem[], currentIndex: number, nextIndex: number | null): MediaItem[] {
+    const count = items.length
+    if (count <= 1) return []
+
+    // Interleave by distance so the most likely next items win the memory budget
+    const wanted: MediaItem[] = nextIndex !== null && items[nextIndex] ? [items[nextIndex]] : []
+    for (let distance = 1; distance <= Math.max(this.ahead, this.behind); distance++) {
+      if (distance <= this.ahead) {
+        wanted.push(items[(currentIndex + distance) % count])
+      }
+      if (distance <= this.behind) {
+        wanted.push(items[((currentIndex - distance) % count + count) % count])
+      }
+    }
+
+    // Streams buffer for themselves once they play
+    const currentUrl = items[currentIndex]?.url
+    return wanted.filter((item, index) => item.type !== 'stream' && item.url !== currentUrl && wanted.findIndex(other => other.url === item.url) === index)
+  }
+
+  private startPreload(item: MediaItem) {
+    const entry: PreloadEntry = { url: item.url, promise: Promise.resolve(null), media: null, cancelled: false }
+
+    entry.promise = this.loadMedia(item)
+      .then(media => {
+        if (entry.cancelled) {
+          releaseMedia(media)
+          return null
+        }
+
+        // A resource that has already been taken is wanted regardless of the budget
+        const taken = this.entries.get(item.url) !== entry
+        if (!taken && this.getUsedBytes() + media.bytes > this.memoryBudget) {
+          releaseMedia(media)
+          this.entries.delete(item.url)
+          return null
+        }
+
+        entry.media = media
+        return media
+      })
+      .catch(error => {
+        console.warn(`Preload of ${item.url} failed:`, error)
+        if (this.entries.get(item.url) === entry) {
+          this.entries.delete(item.url)
+        }
+        return null
+      })
+
+    this.entries.set(item.url, entry)
+  }
+
+  private async loadMedia(item: MediaItem): Promise<PreloadedMedia> {
+    if (item.type === 'image') {
+      const element = new Image()
+      element.crossOrigin = 'anonymous'
+      element.style.display = 'none'
+      element.src = item.url
+      await element.decode()
+      return { kind: 'image', url: item.url, element, bytes: element.naturalWidth * element.naturalHeight * 4 }
+    }
+
+    if (this.useFrameVideo && item.type === 'video') {
+      const video = new FrameVideo()
+      await video.load(item.url)
+      return { kind: 'frame-video', url: item.url, video, bytes: video.videoWidth * video.videoHeight * 4 * FRAME_VIDEO_FRAME_ESTIMATE }
+    }
+
+    const element = createPreloadVideo()
+    await new Promise<void>((resolve, reject) => {
+      element.addEventListener('loadeddata', () => resolve(), { once: true }) // First frame decoded
+      element.addEventListener('error', () => reject(element.error), { once: true })
+      element.src = item.url
+    })
+    return { kind: 'video', url: item.url, element, bytes: element.videoWidth * element.videoHeight * 4 * VIDEO_FRAME_ESTIMATE }
+  }
+
+  private getUsedBytes() {
+    let bytes = 0
+    this.entries.forEach(entry => {
+      bytes += entry.media?.bytes ?? 0
+    })
+    return bytes
+  }
+
+  private releaseEntry(entry: PreloadEntry) {
+    entry.cancelled = true
+    this.entries.delete(entry.url)
+    if (entry.media) {
+      releaseMedia(entry.media)
+      entry.media = null
+    }
+  }
+}
+
+// Frees the decoders and buffers behind a preloaded resource
+export function releaseMedia(media: PreloadedMedia) {
+  if (media.kind === 'video') {
+    media.element.pause()
+    media.element.removeAttribute('src')
+    media.element.load()
+  } else if (media.kind === 'frame-video') {
+    media.video.dispose()
+  } else {
+    media.element.removeAttribute('src')
+  }
+}
+
+// Matches the configuration of the player's persistent video element
+function createPreloadVideo(): HTMLVideoElement {
+  const video = document.createElement('video')
+  video.crossOrigin = 'anonymous'
+  video.playsInline = true
+  video.controls = false
+  video.muted = true
+  video.preload = 'auto'
+  video.style.display = 'none'
+  return video
+}
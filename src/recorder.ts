@@ -0,0 +1,222 @@
+import {
+  MediaStreamAudioTrackSource,
+  MediaStreamVideoTrackSource,
+  Mp4OutputFormat,
+  Output,
+  QUALITY_HIGH,
+  StreamTarget,
+  WebMOutputFormat,
+  getFirstEncodableAudioCodec,
+  getFirstEncodableVideoCodec
+} from 'mediabunny'
+import type { StreamTargetChunk } from 'mediabunny'
+import type { ExportFormat } from './exporter.ts'
+
+export type RecordingOptions = {
+  format?: ExportFormat // Defaults to 'mp4'
+  frameRate?: number // Defaults to 30
+  // Where the file is written as it's recorded, e.g. a file from showSaveFilePicker().
+  // Without one, the recording is collected into a Blob.
+  writable?: WritableStream<StreamTargetChunk>
+}
+
+type SaveFilePickerOptions = {
+  suggestedName?: string
+  types?: { description: string, accept: Record<string, string[]> }[]
+}
+
+// The File System Access API isn't in TypeScript's DOM types
+type SaveFilePickerWindow = Window & {
+  showSaveFilePicker?: (options: SaveFilePickerOptions) => Promise<FileSystemFileHandle>
+}
+
+const DEFAULT_FRAME_RATE = 30
+
+// Records a canvas and a Web Audio mix in real time, writing the file as it goes. The canvas is
+// copied onto one of a fixed size, since the encoder can't follow a player being resized.
+export class LiveRecorder {
+  readonly canvas: HTMLCanvasElement
+  private context: CanvasRenderingContext2D
+  private audioContext: AudioContext | null
+  private mix: MediaStreamAudioDestinationNode | null = null
+  private inputs = new Map<object, AudioNode>() // Sources connected to the mix, by what they came from
+  private output: Output | null = null
+  private stream: MediaStream | null = null
+  private chunks: Blob[] | null = null // Set when recording into memory
+  private size = 0 // Bytes written so far
+  private mimeType = ''
+  private startTime = 0
+
+  // Only Chromium browsers can read frames from a MediaStream, which MediaStream sources rely on
+  static get isSupported() {
+    return typeof MediaStreamTrackProcessor !== 'undefined' && typeof VideoEncoder !== 'undefined'
+  }
+
+  // Sound is recorded from the given context, or not at all without one
+  constructor(width: number, height: number, audioContext: AudioContext | null) {
+    this.canvas = document.createElement('canvas')
+    // Most encoders want even dimensions
+    this.canvas.width = Math.max(2, Math.round(width / 2) * 2)
+    this.canvas.height = Math.max(2, Math.round(height / 2) * 2)
+    this.context = this.canvas.getContext('2d')!
+    this.audioContext = audioContext
+  }
+
+  get isRecording() {
+    return this.output?.state === 'started'
+  }
+
+  // Seconds since recording started
+  get duration() {
+    return this.isRecording ? (performance.now() - this.startTime) / 1000 : 0
+  }
+
+  async start(options: RecordingOptions = {}) {
+    const { format = 'mp4', frameRate = DEFAULT_FRAME_RATE, writable } = options
+    const { width, height } = this.canvas
+
+    // Both formats are written strictly in order, so the file never has to be revisited or held in memory
+    const outputFormat = format === 'webm'
+      ? new WebMOutputFormat({ appendOnly: true })
+      : new Mp4OutputFormat({ fastStart: 'fragmented' })
+    this.mimeType = outputFormat.mimeType
+
+    const videoCodec = await getFirstEncodableVideoCodec(outputFormat.getSupportedVideoCodecs(), { width, height })
+    if (!videoCodec) {
+      throw new Error(`This browser cannot encode video for ${format.toUpperCase()}`)
+    }
+
+    this.chunks = writable ? null : []
+    this.size = 0
+    this.output = new Output({
+      format: outputFormat,
+      target: new StreamTarget(writable ?? this.createMemoryWritable(), { chunked: true })
+    })
+
+    try {
+      // Frames are captured whenever the canvas is drawn to, at most at the frame rate
+      this.clear()
+      this.stream = this.canvas.captureStream(frameRate)
+      const [videoTrack] = this.stream.getVideoTracks()
+      this.output.addVideoTrack(new MediaStreamVideoTrackSource(videoTrack, { codec: videoCodec, bitrate: QUALITY_HIGH }), { frameRate })
+
+      if (this.audioContext) {
+        this.mix = this.audioContext.createMediaStreamDestination()
+        const audioCodec = await getFirstEncodableAudioCodec(outputFormat.getSupportedAudioCodecs(), {
+          numberOfChannels: this.mix.channelCount,
+          sampleRate: this.audioContext.sampleRate
+        })
+        if (audioCodec) {
+          const [audioTrack] = this.mix.stream.getAudioTracks()
+          this.output.addAudioTrack(new MediaStreamAudioTrackSource(audioTrack, { codec: audioCodec, bitrate: QUALITY_HIGH }))
+        } else {
+          console.warn(`No encodable audio codec for ${format.toUpperCase()}, recording without sound`)
+        }
+        if (this.audioContext.state === 'suspended') {
+          await this.audioContext.resume()
+        }
+      }
+
+      await this.output.start()
+    } catch (error) {
+      this.release()
+      throw error
+    }
+    this.startTime = performance.now()
+  }
+
+  // Adds a node of the recording's audio context to the mix. Each source is connected once;
+  // `key` is whatever the node was made from, so callers can offer the same source every frame.
+  connect(key: object, node: AudioNode) {
+    if (!this.mix || this.inputs.has(key)) return
+    node.connect(this.mix)
+    this.inputs.set(key, node)
+  }
+
+  // Adds the sound of a stream from another audio context
+  connectStream(stream: MediaStream) {
+    if (!this.mix || !this.audioContext || this.inputs.has(stream)) return
+    this.connect(stream, this.audioContext.createMediaStreamSource(stream))
+  }
+
+  // Copies a frame onto the recording, letterboxed if the source's shape has changed
+  drawFrame(source: HTMLCanvasElement) {
+    if (!this.isRecording || source.width === 0 || source.height === 0) return
+
+    const { width, height } = this.canvas
+    const scale = Math.min(width / source.width, height / source.height)
+    const drawWidth = source.width * scale
+    const drawHeight = source.height * scale
+    this.clear()
+    this.context.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight)
+  }
+
+  // Finishes the file. Resolves to the recording when it was kept in memory, or null when it went to a writable.
+  async stop(): Promise<Blob | null> {
+    if (!this.output) return null
+    try {
+      await this.output.finalize()
+      return this.chunks ? new Blob(this.chunks, { type: this.mimeType }) : null
+    } finally {
+      this.release()
+    }
+  }
+
+  // Abandons the recording; whatever was already written to a writable stays there
+  async cancel() {
+    if (!this.output) return
+    try {
+      await this.output.cancel()
+    } finally {
+      this.release()
+    }
+  }
+
+  private release() {
+    this.stream?.getTracks().forEach(track => track.stop())
+    this.stream = null
+    this.inputs.forEach(node => {
+      if (node instanceof MediaStreamAudioSourceNode) {
+        node.disconnect() // Made for this recording
+      } else if (this.mix) {
+        node.disconnect(this.mix) // Still feeding the speakers
+      }
+    })
+    this.inputs.clear()
+    this.mix?.stream.getTracks().forEach(track => track.stop())
+    this.mix = null
+    this.output = null
+    this.chunks = null
+  }
+
+  private clear() {
+    this.context.fillStyle = '#000'
+    this.context.fillRect(0, 0, this.canvas.width, this.canvas.height)
+  }
+
+  // Chunks arrive in file order (see the formats above), so appending them is enough
+  private createMemoryWritable() {
+    return new WritableStream<StreamTargetChunk>({
+      write: (chunk) => {
+        if (chunk.position !== this.size) {
+          throw new Error(`Recording chunk out of order at byte ${chunk.position}`)
+        }
+        this.chunks?.push(new Blob([chunk.data]))
+        this.size += chunk.data.byteLength
+      }
+    })
+  }
+}
+
+// Asks where to save a recording, so it can be written straight to disk. Resolves to null where
+// the browser can't do that; rejects with an AbortError if the user cancels.
+export async function pickRecordingFile(format: ExportFormat): Promise<FileSystemWritableFileStream | null> {
+  const picker = (window as SaveFilePickerWindow).showSaveFilePicker
+  if (!picker) return null
+
+  const handle = await picker.call(window, {
+    suggestedName: `recording.${format}`,
+    types: [{ description: `${format.toUpperCase()} video`, accept: { [`video/${format}`]: [`.${format}`] } }]
+  })
+  return handle.createWritable()
+}
@@ -0,0 +1,69 @@
+import type { MediaItem, MediaOverlay } from './playlist.ts'
+
+export type SessionOptions = {
+  key?: string // localStorage key; give each player on a page its own (default 'mediabunny-player-session')
+  resumePrompt?: boolean // Ask before jumping back to the saved position (default true); false resumes straight away
+}
+
+// What is kept in localStorage between visits
+export type SessionState = {
+  version: number
+  playlist: MediaItem[]
+  overlays: MediaOverlay[] // From the playlist manifest
+  index: number
+  url: string // Of the item at index, to find it again if the playlist has changed since
+  time: number // Item time, in seconds
+  muted: boolean
+  volume: number // Master volume for videos and background music
+  savedAt: number // Date.now() of the last save
+}
+
+// Bump when SessionState changes shape; sessions saved by other versions are discarded
+export const SESSION_VERSION = 2
+
+export const DEFAULT_SESSION_KEY = 'mediabunny-player-session'
+
+// The saved session, or null if there is none or it can't be used
+export function loadSession(key: string): SessionState | null {
+  try {
+    const json = localStorage.getItem(key)
+    if (!json) return null
+
+    const state: unknown = JSON.parse(json)
+    if (isSessionState(state)) return state
+
+    localStorage.removeItem(key) // Saved by another player version
+  } catch (error) {
+    console.warn('Could not read saved session:', error)
+  }
+  return null
+}
+
+export function saveSession(key: string, state: SessionState) {
+  try {
+    localStorage.setItem(key, JSON.stringify(state))
+  } catch (error) {
+    console.warn('Could not save session:', error) // Storage full, or disabled in private browsing
+  }
+}
+
+// Where the saved item is now: at its old index if it's still there, otherwise wherever its URL moved to
+export function findResumeIndex(state: SessionState, playlist: readonly MediaItem[]): number | null {
+  if (playlist[state.index]?.url === state.url) return state.index
+  const index = playlist.findIndex(item => item.url === state.url)
+  return index === -1 ? null : index
+}
+
+// Playlist entries themselves are validated when the playlist is loaded, like any other source
+function isSessionState(data: unknown): data is SessionState {
+  if (typeof data !== 'object' || data === null) return false
+  const state = data as Partial<SessionState>
+  return state.version === SESSION_VERSION &&
+    Array.isArray(state.playlist) &&
+    Array.isArray(state.overlays) &&
+    Number.isInteger(state.index) &&
+    typeof state.url === 'string' &&
+    Number.isFinite(state.time) &&
+    typeof state.muted === 'boolean' &&
+    Number.isFinite(state.volume)
+}
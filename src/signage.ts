@@ -0,0 +1,194 @@
+import type { MediaItem, MediaOverlay, PlaylistSource } from './playlist.ts'
+
+// Signage mode keeps unattended screens playing: scheduled playlists, media cached for offline
+// playback by a service worker (public/signage-sw.js), and a watchdog for stalled playback.
+// To try it offline: `npm run build && npx vite preview`, open the page with ?signage, wait for
+// "Offline cache ready", then switch the browser's network panel to Offline (or stop the server)
+// and reload. Kiosk browsers need autoplay with sound allowed, e.g. Chrome's
+// --autoplay-policy=no-user-gesture-required.
+
+// 0 is Sunday, as in Date.getDay()
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6
+
+export type PlaylistSchedule = {
+  playlist: PlaylistSource
+  days?: Weekday[] // Defaults to every day
+  start?: string // Local time, 'HH:MM'; defaults to midnight
+  end?: string // Local time, 'HH:MM', exclusive; earlier than start for a window past midnight. Defaults to midnight
+}
+
+export type SignageOptions = {
+  schedule?: PlaylistSchedule[] // Checked in order, the first that matches plays; otherwise the playlist option does
+  serviceWorker?: string | false // Script of the offline cache (default 'signage-sw.js' at the site root); false disables caching
+  stallTimeout?: number // Seconds without progress before the watchdog steps in (default 15)
+  refreshInterval?: number // Minutes between re-reading the scheduled playlists to update the cache (default 60)
+}
+
+export type MediaCacheResult = {
+  cached: number // Files available offline
+  failed: string[] // URLs that couldn't be downloaded
+}
+
+// Must match the names in public/signage-sw.js
+const MEDIA_CACHE = 'mediabunny-signage-media'
+const APP_CACHE = 'mediabunny-signage-app'
+
+const MINUTES_PER_DAY = 24 * 60
+
+// Schedule entries with readable times; the others are reported and left out
+export function checkSchedule(schedule: PlaylistSchedule[]): PlaylistSchedule[] {
+  return schedule.filter((entry, index) => {
+    const times = [entry.start, entry.end].filter(time => time !== undefined)
+    const badTime = times.find(time => parseClockTime(time) === null)
+    const badDay = entry.days?.find(day => !Number.isInteger(day) || day < 0 || day > 6)
+    if (badTime !== undefined) {
+      console.warn(`Ignoring schedule entry ${index + 1}: "${badTime}" is not a HH:MM time`)
+    } else if (badDay !== undefined) {
+      console.warn(`Ignoring schedule entry ${index + 1}: ${badDay} is not a day of the week (0-6)`)
+    }
+    return badTime === undefined && badDay === undefined
+  })
+}
+
+// Index of the first entry that applies at `date`, or -1 if none does
+export function findActiveSchedule(schedule: PlaylistSchedule[], date: Date): number {
+  const minutes = date.getHours() * 60 + date.getMinutes()
+  const today = date.getDay() as Weekday
+  const yesterday = ((today + 6) % 7) as Weekday
+
+  return schedule.findIndex(entry => {
+    const start = entry.start ? parseClockTime(entry.start) ?? 0 : 0
+    const end = entry.end ? parseClockTime(entry.end) ?? MINUTES_PER_DAY : MINUTES_PER_DAY
+    const onDay = (day: Weekday) => !entry.days || entry.days.includes(day)
+
+    if (start < end) {
+      return onDay(today) && minutes >= start && minutes < end
+    }
+    // Past midnight, the window still belongs to the day it started on
+    return (onDay(today) && minutes >= start) || (onDay(yesterday) && minutes < end)
+  })
+}
+
+// Every file a playlist needs to play: media, covers, subtitles, overlay images and per-item music,
+// plus any others the player needs, such as the background music
+export function collectMediaUrls(items: MediaItem[], overlays: MediaOverlay[] = [], others: string[] = []): string[] {
+  const urls = new Set<string>()
+  const add = (url: string | undefined) => {
+    if (!url) return
+    const { href, protocol } = new URL(url, document.baseURI)
+    if (protocol === 'http:' || protocol === 'https:') urls.add(href) // Local files and conversions are blob: URLs
+  }
+
+  for (const item of items) {
+    // A cached manifest would freeze a live stream, and its segments aren't listed here anyway
+    if (item.type !== 'stream') add(item.url)
+    add(item.cover)
+    item.subtitles?.forEach(subtitle => add(subtitle.url))
+    item.overlays?.forEach(overlay => add(overlay.image))
+    if (typeof item.music?.track === 'string') add(item.music.track)
+  }
+  overlays.forEach(overlay => add(overlay.image))
+  others.forEach(add)
+  return [...urls]
+}
+
+export async function registerSignageWorker(url: string): Promise<boolean> {
+  if (!('serviceWorker' in navigator)) {
+    console.warn('Service workers are unavailable (they need HTTPS or localhost); media will not be cached for offline use')
+    return false
+  }
+  try {
+    await navigator.serviceWorker.register(url)
+    return true
+  } catch (error) {
+    console.warn(`Could not register the signage service worker ${url}:`, error)
+    return false
+  }
+}
+
+// Downloads whatever isn't cached yet, one file at a time to leave bandwidth for playback. With
+// `prune`, files no playlist uses any more are dropped; only pass it when every playlist could be read.
+// Manifests are kept too, so the schedule still loads offline.
+export async function syncMediaCache(urls: string[], manifests: string[], prune: boolean): Promise<MediaCacheResult> {
+  const media = await caches.open(MEDIA_CACHE)
+  const wanted = new Set(urls)
+
+  if (prune) {
+    for (const request of await media.keys()) {
+      if (!wanted.has(request.url)) {
+        await media.delete(request)
+      }
+    }
+  }
+
+  const failed: string[] = []
+  for (const url of wanted) {
+    if (await media.match(url)) continue
+    try {
+      await media.add(url)
+    } catch (error) {
+      console.warn(`Could not cache ${url} for offline playback:`, error)
+      failed.push(url)
+    }
+  }
+
+  // The service worker refreshes these from the network whenever it can
+  const app = await caches.open(APP_CACHE)
+  for (const url of manifests) {
+    await app.add(url).catch(error => console.warn(`Could not cache playlist ${url}:`, error))
+  }
+
+  return { cached: wanted.size - failed.length, failed }
+}
+
+// Calls onStall when the position reported by getPosition hasn't changed for `timeout` seconds.
+// A null position means nothing is expected to move, e.g. when nothing is scheduled.
+export class PlaybackWatchdog {
+  private timeout: number
+  private getPosition: () => string | null
+  private onStall: () => void
+  private timer: number | null = null
+  private lastPosition: string | null = null
+  private lastProgress = 0
+
+  constructor(timeout: number, getPosition: () => string | null, onStall: () => void) {
+    this.timeout = timeout
+    this.getPosition = getPosition
+    this.onStall = onStall
+  }
+
+  start() {
+    if (this.timer !== null) return
+    this.lastProgress = performance.now()
+    this.timer = window.setInterval(() => this.check(), 1000)
+  }
+
+  stop() {
+    if (this.timer !== null) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private check() {
+    const position = this.getPosition()
+    const now = performance.now()
+    if (position === null || position !== this.lastPosition) {
+      this.lastPosition = position
+      this.lastProgress = now
+    } else if (now - this.lastProgress > this.timeout * 1000) {
+      this.lastProgress = now // Give the recovery as long again before stepping in once more
+      this.onStall()
+    }
+  }
+}
+
+// Minutes since midnight, or null if the text isn't a HH:MM time
+function parseClockTime(text: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(text.trim())
+  if (!match) return null
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null
+  return hours * 60 + minutes
+}
@@ -0,0 +1,510 @@
+// HLS and DASH manifests, reduced to what adaptive playback needs: renditions and their segments.
+// Segments must be fragmented MP4 (CMAF) or WebM, which Media Source Extensions can play;
+// HLS with MPEG-TS segments only plays where the browser handles HLS itself.
+
+export type StreamProtocol = 'hls' | 'dash'
+
+export type ByteRange = { start: number, end: number } // Inclusive, as in a Range header
+
+export type StreamSegment = {
+  url: string
+  range?: ByteRange
+  sequence: number // The same stretch of time has the same number in every rendition
+  start: number // Seconds
+  duration: number
+}
+
+export type StreamRendition = {
+  id: string
+  kind: 'video' | 'audio' // Video renditions may carry audio as well
+  bandwidth: number // Bits per second, as declared by the manifest
+  width?: number
+  height?: number
+  frameRate?: number
+  mimeType: string // Container, e.g. 'video/mp4'
+  codecs?: string // RFC 6381 codec strings, e.g. 'avc1.64001f,mp4a.40.2'
+  init?: { url: string, range?: ByteRange }
+  segments: StreamSegment[]
+  playlistUrl?: string // HLS media playlist, read on first use and re-read for live streams
+  loaded: boolean // The segment list has been read
+}
+
+export type StreamManifest = {
+  url: string
+  protocol: StreamProtocol
+  live: boolean
+  duration: number // Seconds; Infinity for live streams
+  refreshInterval: number // Seconds between re-reads of a live manifest
+  renditions: StreamRendition[] // What adaptation picks from, by increasing bandwidth: video, or audio alone
+  audio: StreamRendition | null // Separate audio, where the renditions don't carry it
+  sequenceStarts: Map<number, number> // HLS: start times by segment number, to line renditions up
+}
+
+const DEFAULT_REFRESH_INTERVAL = 2
+// DASH live streams without a time shift depth: how far back segments are listed
+const DEFAULT_TIME_SHIFT = 30
+// Segment numbers remembered for lining up HLS renditions
+const MAX_SEQUENCE_STARTS = 1000
+const VIDEO_CODEC_PREFIXES = ['avc1', 'avc3', 'hvc1', 'hev1', 'dvh1', 'dvhe', 'vp08', 'vp8', 'vp09', 'vp9', 'av01']
+
+// MPEG-TS segments can't be fed through Media Source Extensions; only a browser's own HLS playback takes them
+export class NativeHlsRequiredError extends Error {
+  constructor() {
+    super('HLS streams with MPEG-TS segments only play in browsers with built-in HLS support')
+    this.name = 'NativeHlsRequiredError'
+  }
+}
+
+export function isHlsManifest(text: string) {
+  return text.trimStart().startsWith('#EXTM3U') && /#EXT-X-(STREAM-INF|TARGETDURATION)/.test(text)
+}
+
+export function isDashManifest(text: string) {
+  return /<MPD[\s>]/.test(text)
+}
+
+export async function loadStreamManifest(url: string, signal?: AbortSignal): Promise<StreamManifest> {
+  const text = await fetchText(url, signal)
+  if (isDashManifest(text)) {
+    return parseDash(text, url)
+  }
+  if (!isHlsManifest(text)) {
+    throw new Error(`${url} is neither an HLS playlist nor a DASH manifest`)
+  }
+
+  const manifest = parseHlsMaster(text, url)
+  // HLS keeps segments in per-rendition playlists; the first one tells whether the stream is live
+  const [first] = manifest.renditions
+  if (first.playlistUrl === url) {
+    applyHlsMediaPlaylist(manifest, first, text)
+  } else {
+    await updateRendition(manifest, first, signal)
+  }
+  return manifest
+}
+
+// Reads a rendition's segment list, or re-reads it to follow a live stream
+export async function updateRendition(manifest: StreamManifest, rendition: StreamRendition, signal?: AbortSignal) {
+  if (manifest.protocol === 'hls') {
+    const text = await fetchText(rendition.playlistUrl!, signal)
+    applyHlsMediaPlaylist(manifest, rendition, text)
+    return
+  }
+
+  // DASH describes every rendition in the one document
+  const fresh = parseDash(await fetchText(manifest.url, signal), manifest.url)
+  for (const current of [...manifest.renditions, manifest.audio]) {
+    const match = current && [...fresh.renditions, fresh.audio].find(other => other?.id === current.id)
+    if (current && match) {
+      current.segments = match.segments
+      current.init = match.init
+    }
+  }
+  manifest.live = fresh.live
+  manifest.duration = fresh.duration
+}
+
+// Whether a rendition's codecs are video or audio ones
+export function splitCodecs(codecs: string): { video: string[], audio: string[] } {
+  const video: string[] = []
+  const audio: string[] = []
+  codecs.split(',').map(codec => codec.trim()).filter(Boolean).forEach(codec => {
+    const prefix = codec.split('.')[0].toLowerCase()
+    if (VIDEO_CODEC_PREFIXES.includes(prefix)) {
+      video.push(codec)
+    } else {
+      audio.push(codec)
+    }
+  })
+  return { video, audio }
+}
+
+function parseHlsMaster(text: string, url: string): StreamManifest {
+  const manifest: StreamManifest = {
+    url,
+    protocol: 'hls',
+    live: false,
+    duration: 0,
+    refreshInterval: DEFAULT_REFRESH_INTERVAL,
+    renditions: [],
+    audio: null,
+    sequenceStarts: new Map()
+  }
+
+  if (!text.includes('#EXT-X-STREAM-INF')) {
+    // A media playlist on its own: one rendition of unknown bandwidth
+    manifest.renditions.push(createHlsRendition('0', 'video', 0, url))
+    return manifest
+  }
+
+  const lines = text.split(/\r?\n/).map(line => line.trim())
+  const audioGroups = new Map<string, { rendition: StreamRendition, isDefault: boolean }[]>()
+  const audioGroupOf = new Map<StreamRendition, string>()
+
+  lines.forEach((line, index) => {
+    if (line.startsWith('#EXT-X-MEDIA:')) {
+      const attributes = parseAttributes(line.slice('#EXT-X-MEDIA:'.length))
+      // Without a URI the audio is muxed into the video renditions
+      if (attributes.TYPE !== 'AUDIO' || !attributes.URI || !attributes['GROUP-ID']) return
+      const group = audioGroups.get(attributes['GROUP-ID']) ?? []
+      const rendition = createHlsRendition(`audio-${attributes['GROUP-ID']}-${group.length}`, 'audio', 0, new URL(attributes.URI, url).href)
+      group.push({ rendition, isDefault: attributes.DEFAULT === 'YES' })
+      audioGroups.set(attributes['GROUP-ID'], group)
+    } else if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      const attributes = parseAttributes(line.slice('#EXT-X-STREAM-INF:'.length))
+      const uri = lines.slice(index + 1).find(next => next && !next.startsWith('#'))
+      if (!uri) return
+
+      const rendition = createHlsRendition(String(manifest.renditions.length), 'video', Number(attributes.BANDWIDTH) || 0, new URL(uri, url).href)
+      const resolution = /^(\d+)x(\d+)$/.exec(attributes.RESOLUTION ?? '')
+      if (resolution) {
+        rendition.width = Number(resolution[1])
+        rendition.height = Number(resolution[2])
+      }
+      if (attributes['FRAME-RATE']) {
+        rendition.frameRate = Number(attributes['FRAME-RATE'])
+      }
+      if (attributes.CODECS) {
+        rendition.codecs = attributes.CODECS
+        if (splitCodecs(attributes.CODECS).video.length === 0) {
+          rendition.mimeType = 'audio/mp4'
+        }
+      }
+      if (attributes.AUDIO) {
+        audioGroupOf.set(rendition, attributes.AUDIO)
+      }
+      manifest.renditions.push(rendition)
+    }
+  })
+
+  // One audio rendition plays under every video rendition: the first group's default
+  const groupId = manifest.renditions.map(rendition => audioGroupOf.get(rendition)).find(id => id && audioGroups.has(id))
+  if (groupId) {
+    const group = audioGroups.get(groupId)!
+    manifest.audio = (group.find(entry => entry.isDefault) ?? group[0]).rendition
+    manifest.renditions.forEach(rendition => {
+      if (!rendition.codecs) return
+      const { video, audio } = splitCodecs(rendition.codecs)
+      rendition.codecs = video.join(',')
+      if (!manifest.audio!.codecs && audio.length > 0) {
+        manifest.audio!.codecs = audio.join(',')
+      }
+    })
+  }
+
+  manifest.renditions.sort((a, b) => a.bandwidth - b.bandwidth)
+  return manifest
+}
+
+function createHlsRendition(id: string, kind: 'video' | 'audio', bandwidth: number, playlistUrl: string): StreamRendition {
+  return { id, kind, bandwidth, mimeType: `${kind}/mp4`, segments: [], playlistUrl, loaded: false }
+}
+
+function applyHlsMediaPlaylist(manifest: StreamManifest, rendition: StreamRendition, text: string) {
+  const baseUrl = rendition.playlistUrl!
+  const entries: Omit<StreamSegment, 'start'>[] = []
+  let sequence = 0
+  let ended = false
+  let segmentDuration: number | null = null
+  let segmentRange: ByteRange | undefined
+  let rangeEnd = -1 // Where the last byte range ended, for ranges without an offset
+
+  for (const line of text.split(/\r?\n/).map(line => line.trim())) {
+    if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+      sequence = parseInt(line.slice('#EXT-X-MEDIA-SEQUENCE:'.length), 10) || 0
+    } else if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+      manifest.refreshInterval = Number(line.slice('#EXT-X-TARGETDURATION:'.length)) || DEFAULT_REFRESH_INTERVAL
+    } else if (line === '#EXT-X-ENDLIST') {
+      ended = true
+    } else if (line.startsWith('#EXT-X-KEY:')) {
+      if (parseAttributes(line.slice('#EXT-X-KEY:'.length)).METHOD !== 'NONE') {
+        throw new Error('Encrypted HLS streams are not supported')
+      }
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const attributes = parseAttributes(line.slice('#EXT-X-MAP:'.length))
+      rendition.init = {
+        url: new URL(attributes.URI, baseUrl).href,
+        range: attributes.BYTERANGE ? parseHlsByteRange(attributes.BYTERANGE, 0) : undefined
+      }
+    } else if (line.startsWith('#EXTINF:')) {
+      segmentDuration = parseFloat(line.slice('#EXTINF:'.length))
+    } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+      segmentRange = parseHlsByteRange(line.slice('#EXT-X-BYTERANGE:'.length), rangeEnd + 1)
+      rangeEnd = segmentRange.end
+    } else if (line && !line.startsWith('#') && segmentDuration !== null) {
+      entries.push({ url: new URL(line, baseUrl).href, range: segmentRange, sequence, duration: segmentDuration })
+      sequence++
+      segmentDuration = null
+      segmentRange = undefined
+    }
+  }
+
+  if (!rendition.init && entries.length > 0) {
+    throw new NativeHlsRequiredError()
+  }
+
+  // Start times follow segments already seen in this or another rendition, so all of them line up
+  const starts = manifest.sequenceStarts
+  const anchor = entries.findIndex(entry => starts.has(entry.sequence))
+  let start = anchor === -1 ? 0 : starts.get(entries[anchor].sequence)!
+  entries.slice(0, Math.max(0, anchor)).forEach(entry => { start -= entry.duration })
+  rendition.segments = entries.map(entry => {
+    const segment = { ...entry, start }
+    starts.set(entry.sequence, start)
+    start += entry.duration
+    return segment
+  })
+  for (const key of starts.keys()) {
+    if (starts.size <= MAX_SEQUENCE_STARTS) break
+    starts.delete(key) // Oldest first, as maps keep insertion order
+  }
+
+  rendition.loaded = true
+  manifest.live = !ended
+  manifest.duration = ended ? start : Infinity
+}
+
+// LENGTH[@OFFSET]; without an offset the range follows on from the previous one
+function parseHlsByteRange(text: string, defaultOffset: number): ByteRange {
+  const [length, offset] = text.split('@').map(Number)
+  const start = offset ?? defaultOffset
+  return { start, end: start + length - 1 }
+}
+
+// KEY=value,KEY="quoted, value" attribute lists
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const [, key, value] of text.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+    attributes[key] = value.replace(/^"|"$/g, '')
+  }
+  return attributes
+}
+
+type DashContext = {
+  live: boolean
+  periodStart: number // Seconds
+  periodDuration: number // Seconds; Infinity while live
+  liveEdge: number // Seconds since the period started; only for live streams
+  timeShift: number // Seconds of a live stream kept available
+}
+
+function parseDash(text: string, url: string): StreamManifest {
+  const document = new DOMParser().parseFromString(text, 'application/xml')
+  const mpd = document.documentElement
+  if (mpd.localName !== 'MPD') {
+    throw new Error(`Could not read the DASH manifest ${url}`)
+  }
+  const period = getChildren(mpd, 'Period')[0]
+  if (!period) {
+    throw new Error(`DASH manifest ${url} has no Period`)
+  }
+
+  const live = mpd.getAttribute('type') === 'dynamic'
+  const periodStart = parseIsoDuration(period.getAttribute('start')) ?? 0
+  const duration = live ? Infinity : parseIsoDuration(mpd.getAttribute('mediaPresentationDuration'))
+    ?? (parseIsoDuration(period.getAttribute('duration')) ?? 0) + periodStart
+  const availabilityStart = Date.parse(mpd.getAttribute('availabilityStartTime') ?? '') || 0
+  const context: DashContext = {
+    live,
+    periodStart,
+    periodDuration: duration - periodStart,
+    liveEdge: (Date.now() - availabilityStart) / 1000 - periodStart,
+    timeShift: parseIsoDuration(mpd.getAttribute('timeShiftBufferDepth')) ?? DEFAULT_TIME_SHIFT
+  }
+
+  const periodBase = resolveBaseUrl(resolveBaseUrl(url, mpd), period)
+  const video: StreamRendition[] = []
+  const audio: StreamRendition[] = []
+
+  for (const set of getChildren(period, 'AdaptationSet')) {
+    const setBase = resolveBaseUrl(periodBase, set)
+    for (const representation of getChildren(set, 'Representation')) {
+      const read = (name: string) => representation.getAttribute(name) ?? set.getAttribute(name) ?? undefined
+      const mimeType = read('mimeType') ?? ''
+      const contentType = set.getAttribute('contentType') ?? mimeType.split('/')[0]
+      if (contentType !== 'video' && contentType !== 'audio') continue // Subtitles and the like
+
+      const rendition: StreamRendition = {
+        id: representation.getAttribute('id') ?? `${contentType}-${video.length + audio.length}`,
+        kind: contentType,
+        bandwidth: Number(representation.getAttribute('bandwidth')) || 0,
+        mimeType: mimeType || `${contentType}/mp4`,
+        codecs: read('codecs'),
+        segments: [],
+        loaded: true
+      }
+      const width = Number(read('width'))
+      const height = Number(read('height'))
+      if (width && height) {
+        rendition.width = width
+        rendition.height = height
+      }
+      const frameRate = read('frameRate')
+      if (frameRate) {
+        const [numerator, denominator = 1] = frameRate.split('/').map(Number)
+        rendition.frameRate = numerator / denominator
+      }
+
+      readDashSegments(rendition, resolveBaseUrl(setBase, representation), [set, representation], context)
+      if (contentType === 'video') {
+        video.push(rendition)
+      } else {
+        audio.push(rendition)
+      }
+    }
+  }
+
+  video.sort((a, b) => a.bandwidth - b.bandwidth)
+  audio.sort((a, b) => a.bandwidth - b.bandwidth)
+  if (video.length === 0 && audio.length === 0) {
+    throw new Error(`DASH manifest ${url} has no video or audio`)
+  }
+
+  return {
+    url,
+    protocol: 'dash',
+    live,
+    duration,
+    refreshInterval: parseIsoDuration(mpd.getAttribute('minimumUpdatePeriod')) || DEFAULT_REFRESH_INTERVAL,
+    // Audio alone adapts like video would; next to video, the best audio plays throughout
+    renditions: video.length > 0 ? video : audio,
+    audio: video.length > 0 ? audio[audio.length - 1] ?? null : null,
+    sequenceStarts: new Map()
+  }
+}
+
+// `levels` are the AdaptationSet and the Representation; segment information on the latter wins
+function readDashSegments(rendition: StreamRendition, baseUrl: string, levels: Element[], context: DashContext) {
+  const templates = levels.flatMap(level => getChildren(level, 'SegmentTemplate'))
+  if (templates.length > 0) {
+    readSegmentTemplate(rendition, baseUrl, templates, context)
+    return
+  }
+
+  const list = levels.flatMap(level => getChildren(level, 'SegmentList')).pop()
+  if (list) {
+    const timescale = Number(list.getAttribute('timescale')) || 1
+    const duration = Number(list.getAttribute('duration')) / timescale || context.periodDuration
+    const initialization = getChildren(list, 'Initialization')[0]
+    if (initialization) {
+      rendition.init = {
+        url: new URL(initialization.getAttribute('sourceURL') ?? '', baseUrl).href,
+        range: parseDashByteRange(initialization.getAttribute('range'))
+      }
+    }
+    rendition.segments = getChildren(list, 'SegmentURL').map((segment, index) => ({
+      url: new URL(segment.getAttribute('media') ?? '', baseUrl).href,
+      range: parseDashByteRange(segment.getAttribute('mediaRange')),
+      sequence: index,
+      start: context.periodStart + index * duration,
+      duration
+    }))
+    return
+  }
+
+  // A single file (SegmentBase or just a BaseURL): appended whole, so no switching within it
+  rendition.segments = [{ url: baseUrl, sequence: 0, start: context.periodStart, duration: context.periodDuration }]
+}
+
+function readSegmentTemplate(rendition: StreamRendition, baseUrl: string, templates: Element[], context: DashContext) {
+  const read = (name: string) => templates.map(template => template.getAttribute(name)).filter(value => value !== null).pop() ?? undefined
+  const timescale = Number(read('timescale')) || 1
+  const startNumber = Number(read('startNumber') ?? 1)
+  const offset = Number(read('presentationTimeOffset') ?? 0)
+  const media = read('media') ?? ''
+  const fill = (template: string, number: number, time: number) => new URL(expandTemplate(template, rendition, number, time), baseUrl).href
+
+  const initialization = read('initialization')
+  if (initialization) {
+    rendition.init = { url: fill(initialization, startNumber, 0) }
+  }
+
+  const timeline = templates.flatMap(template => getChildren(template, 'SegmentTimeline')).pop()
+  if (timeline) {
+    const entries = getChildren(timeline, 'S')
+    const end = (context.live ? context.liveEdge : context.periodDuration) * timescale + offset
+    let time = 0
+    let number = startNumber
+    entries.forEach((entry, index) => {
+      time = Number(entry.getAttribute('t') ?? time)
+      const duration = Number(entry.getAttribute('d'))
+      let repeat = Number(entry.getAttribute('r') ?? 0)
+      if (repeat < 0) {
+        // Repeats up to the next entry, or to the end of the period (the live edge while live)
+        const until = Number(entries[index + 1]?.getAttribute('t') ?? end)
+        repeat = Math.ceil((until - time) / duration) - 1
+      }
+      for (let count = 0; count <= repeat && duration > 0; count++) {
+        rendition.segments.push({
+          url: fill(media, number, time),
+          sequence: number,
+          start: context.periodStart + (time - offset) / timescale,
+          duration: duration / timescale
+        })
+        time += duration
+        number++
+      }
+    })
+    return
+  }
+
+  const duration = Number(read('duration')) / timescale
+  if (!duration) {
+    throw new Error(`DASH representation ${rendition.id} has neither a segment duration nor a timeline`)
+  }
+  let first = 0
+  let last = Math.ceil(context.periodDuration / duration) - 1
+  if (context.live) {
+    // Only complete segments within the time shift window are available
+    last = Math.floor(context.liveEdge / duration) - 1
+    first = Math.max(0, last - Math.ceil(context.timeShift / duration) + 1)
+  }
+  for (let index = first; index <= last; index++) {
+    rendition.segments.push({
+      url: fill(media, startNumber + index, index * duration * timescale + offset),
+      sequence: startNumber + index,
+      start: context.periodStart + index * duration,
+      duration
+    })
+  }
+}
+
+// $RepresentationID$, $Number$, $Bandwidth$ and $Time$, optionally zero-padded as in $Number%05d$
+function expandTemplate(template: string, rendition: StreamRendition, number: number, time: number) {
+  return template.replace(/\$(RepresentationID|Number|Bandwidth|Time)(?:%0(\d+)d)?\$|\$\$/g, (match, name: string, width?: string) => {
+    if (match === '$$') return '$'
+    const value = name === 'RepresentationID' ? rendition.id
+      : String(name === 'Number' ? number : name === 'Bandwidth' ? rendition.bandwidth : time)
+    return width ? value.padStart(Number(width), '0') : value
+  })
+}
+
+function parseDashByteRange(text: string | null): ByteRange | undefined {
+  const match = /^(\d+)-(\d+)$/.exec(text ?? '')
+  return match ? { start: Number(match[1]), end: Number(match[2]) } : undefined
+}
+
+// ISO 8601 durations as used in manifests, e.g. PT1H2M3.5S; null if absent or unreadable
+function parseIsoDuration(text: string | null): number | null {
+  const match = /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(text ?? '')
+  if (!match) return null
+  const [days, hours, minutes, seconds] = match.slice(1).map(value => Number(value ?? 0))
+  return ((days * 24 + hours) * 60 + minutes) * 60 + seconds
+}
+
+function resolveBaseUrl(base: string, element: Element) {
+  const baseUrl = getChildren(element, 'BaseURL')[0]?.textContent?.trim()
+  return baseUrl ? new URL(baseUrl, base).href : base
+}
+
+function getChildren(element: Element, name: string): Element[] {
+  return Array.from(element.children).filter(child => child.localName === name)
+}
+
+async function fetchText(url: string, signal?: AbortSignal) {
+  const response = await fetch(url, { signal })
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`)
+  }
+  return response.text()
+}
@@ -0,0 +1,116 @@
+import { ALL_FORMATS, Input } from 'mediabunny'
+import { createSource } from './media-source.ts'
+import type { SubtitleFile } from './playlist.ts'
+
+export type SubtitleCue = {
+  start: number // Seconds
+  end: number
+  text: string // May contain <i>, <b> and <u>
+}
+
+// A selectable subtitle track, whether from a file or embedded in the video
+export type SubtitleTrack = {
+  label: string
+  language: string // 'und' when unknown
+  default: boolean
+  getText: (time: number) => string | null // Cue text showing at a media time
+  release?: () => void
+}
+
+const TIMING_PATTERN = /((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})/
+
+// Parses SRT or WebVTT; both are blank-line separated blocks around a "start --> end" line
+export function parseSubtitles(text: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = []
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/)
+
+  for (const block of blocks) {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex(line => TIMING_PATTERN.test(line))
+    if (timingIndex === -1) continue // Header, NOTE, STYLE and REGION blocks
+
+    const [, start, end] = lines[timingIndex].match(TIMING_PATTERN)!
+    const cueText = lines.slice(timingIndex + 1).join('\n').trim()
+    if (cueText) {
+      cues.push({ start: parseTimestamp(start), end: parseTimestamp(end), text: cueText })
+    }
+  }
+
+  return cues.sort((a, b) => a.start - b.start)
+}
+
+export async function loadSubtitleFile(file: SubtitleFile): Promise<SubtitleTrack> {
+  const response = await fetch(file.url)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch subtitles ${file.url}: ${response.status}`)
+  }
+
+  const cues = parseSubtitles(await response.text())
+  const language = file.language ?? 'und'
+  return {
+    label: file.label ?? getLanguageLabel(language),
+    language,
+    default: file.default ?? false,
+    getText: time => {
+      const active = cues.filter(cue => cue.start <= time && time < cue.end)
+      return active.length > 0 ? active.map(cue => cue.text).join('\n') : null
+    }
+  }
+}
+
+// Lists the languages of subtitle tracks embedded in a video's container
+export async function listEmbeddedSubtitleLanguages(url: string): Promise<string[]> {
+  const input = new Input({ source: createSource(url), formats: ALL_FORMATS })
+  const tracks = await input.getTracks()
+  return tracks.filter(track => track.type === 'subtitle').map(track => track.languageCode)
+}
+
+// Subtitle and caption tracks the browser demuxed from a <video> itself
+export function getInBandTracks(video: HTMLVideoElement): SubtitleTrack[] {
+  return Array.from(video.textTracks)
+    .filter(track => track.kind === 'subtitles' || track.kind === 'captions')
+    .map(track => {
+      const language = track.language || 'und'
+      return {
+        label: track.label || getLanguageLabel(language),
+        language,
+        default: false,
+        getText: () => {
+          // 'hidden' keeps cues updating without the browser drawing them itself
+          if (track.mode === 'disabled') {
+            track.mode = 'hidden'
+          }
+          const active = Array.from(track.activeCues ?? []) as VTTCue[]
+          return active.length > 0 ? active.map(cue => cue.text).join('\n') : null
+        },
+        release: () => {
+          track.mode = 'disabled'
+        }
+      }
+    })
+}
+
+// Escapes cue text for innerHTML, keeping only simple styling tags
+export function formatCueHtml(text: string): string {
+  return text
+    .replace(/<(?!\/?[ibu]>)[^>]*>/g, '') // Voice, class and timestamp tags
+    .replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+    .replace(/&#60;(\/?)([ibu])&#62;/g, '<$1$2>')
+    .replace(/\n/g, '<br>')
+}
+
+export function getLanguageLabel(language: string): string {
+  if (language === 'und') return 'Unknown'
+  try {
+    return new Intl.DisplayNames(undefined, { type: 'language' }).of(language) ?? language
+  } catch {
+    return language // ISO 639-2 codes such as 'eng' aren't always accepted
+  }
+}
+
+function parseTimestamp(timestamp: string): number {
+  const [clock, fraction] = timestamp.split(/[,.]/)
+  const parts = clock.split(':').map(Number)
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0)
+  return seconds + Number(fraction.padEnd(3, '0')) / 1000
+}
@@ -0,0 +1,236 @@
+import { ALL_FORMATS, CanvasSink, Input } from 'mediabunny'
+import { drawWaveform, getWaveform } from './audio-visualizer.ts'
+import { createSource } from './media-source.ts'
+import { DEFAULT_IMAGE_DURATION } from './playlist.ts'
+import type { MediaItem } from './playlist.ts'
+
+export type ThumbnailOptions = {
+  width?: number // Thumbnail width in pixels (default 160); height follows the aspect ratio
+  persist?: boolean // Also keep thumbnails in IndexedDB across sessions (default false)
+}
+
+export type Thumbnail = {
+  src: string // Object URL of the thumbnail image
+  duration: number // Seconds; the display duration for images
+}
+
+type StoredThumbnail = {
+  blob: Blob
+  duration: number
+}
+
+// Per-video frame source for hover previews, kept open between calls
+type PreviewSource = {
+  sink: CanvasSink
+  duration: number
+}
+
+const DEFAULT_THUMBNAIL_WIDTH = 160
+// Representative frame: a little way in, past fade-ins and black leaders
+const THUMBNAIL_POSITION = 0.1
+const DB_NAME = 'mediabunny-thumbnails'
+const DB_STORE = 'thumbnails'
+
+// Generates playlist thumbnails and progress bar previews lazily, one at a time, so they never
+// compete with playback for decoders. Results are cached in memory (and optionally IndexedDB) by URL.
+export class ThumbnailCache {
+  private thumbnails = new Map<string, Promise<Thumbnail | null>>()
+  private previewSources = new Map<string, Promise<PreviewSource | null>>()
+  private queue: Promise<unknown> = Promise.resolve()
+  private width: number
+  private persist: boolean
+  private db: Promise<IDBDatabase | null> | null = null
+
+  constructor(options: ThumbnailOptions = {}) {
+    this.width = options.width ?? DEFAULT_THUMBNAIL_WIDTH
+    this.persist = options.persist ?? false
+  }
+
+  get(item: MediaItem): Promise<Thumbnail | null> {
+    // A stream has no single file to take a frame from
+    if (item.type === 'stream') return Promise.resolve(null)
+
+    let thumbnail = this.thumbnails.get(item.url)
+    if (!thumbnail) {
+      thumbnail = this.enqueue(() => this.load(item)).catch(error => {
+        console.warn(`Thumbnail for ${item.url} failed:`, error)
+        return null
+      })
+      this.thumbnails.set(item.url, thumbnail)
+    }
+    return thumbnail
+  }
+
+  // A converted copy shows its original's thumbnail; one is made for it where the original got none
+  adopt(original: MediaItem, copy: MediaItem) {
+    const thumbnail = this.thumbnails.get(original.url)
+    if (!thumbnail || this.thumbnails.has(copy.url)) return
+    this.thumbnails.set(copy.url, thumbnail.then(result => result ?? this.enqueue(() => this.load(copy)).catch(error => {
+      console.warn(`Thumbnail for ${copy.url} failed:`, error)
+      return null
+    })))
+  }
+
+  // A small frame of a video at the given time, for scrub previews
+  async getPreviewFrame(url: string, time: number): Promise<HTMLCanvasElement | OffscreenCanvas | null> {
+    let source = this.previewSources.get(url)
+    if (!source) {
+      source = openVideo(url, this.width).catch(error => {
+        console.warn(`Preview source for ${url} failed:`, error)
+        return null
+      })
+      this.previewSources.set(url, source)
+    }
+
+    const preview = await source
+    if (!preview) return null
+    const frame = await preview.sink.getCanvas(Math.min(Math.max(0, time), preview.duration))
+    return frame?.canvas ?? null
+  }
+
+  clear() {
+    this.thumbnails.forEach(thumbnail => {
+      thumbnail.then(result => result && URL.revokeObjectURL(result.src))
+    })
+    this.thumbnails.clear()
+    this.previewSources.clear()
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(() => waitForIdle()).then(task)
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+
+  private async load(item: MediaItem): Promise<Thumbnail> {
+    const stored = this.persist ? await this.readStored(item.url) : null
+    if (stored) {
+      return { src: URL.createObjectURL(stored.blob), duration: stored.duration }
+    }
+
+    const generated = item.type === 'image'
+      ? await createImageThumbnail(item, this.width)
+      : item.type === 'audio'
+        ? await createAudioThumbnail(item, this.width)
+        : await createVideoThumbnail(item.url, this.width)
+
+    if (this.persist) {
+      this.writeStored(item.url, generated)
+    }
+    return { src: URL.createObjectURL(generated.blob), duration: generated.duration }
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise(resolve => {
+        if (!('indexedDB' in window)) {
+          resolve(null)
+          return
+        }
+        const request = indexedDB.open(DB_NAME, 1)
+        request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE)
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          console.warn('Thumbnail database unavailable:', request.error)
+          resolve(null)
+        }
+      })
+    }
+    return this.db
+  }
+
+  private async readStored(url: string): Promise<StoredThumbnail | null> {
+    const db = await this.openDatabase()
+    if (!db) return null
+
+    return new Promise(resolve => {
+      const request = db.transaction(DB_STORE).objectStore(DB_STORE).get(url)
+      request.onsuccess = () => resolve(request.result ?? null)
+      request.onerror = () => resolve(null)
+    })
+  }
+
+  private async writeStored(url: string, thumbnail: StoredThumbnail) {
+    const db = await this.openDatabase()
+    if (!db) return
+
+    const transaction = db.transaction(DB_STORE, 'readwrite')
+    transaction.objectStore(DB_STORE).put(thumbnail, url)
+    transaction.onerror = () => console.warn(`Could not store thumbnail for ${url}:`, transaction.error)
+  }
+}
+
+async function createImageThumbnail(item: MediaItem, width: number): Promise<StoredThumbnail> {
+  return { blob: await resizeImage(item.url, width), duration: item.duration || DEFAULT_IMAGE_DURATION }
+}
+
+// The cover if there is one, otherwise the waveform
+async function createAudioThumbnail(item: MediaItem, width: number): Promise<StoredThumbnail> {
+  const input = new Input({ source: createSource(item.url), formats: ALL_FORMATS })
+  const duration = await input.computeDuration()
+  if (item.cover) {
+    return { blob: await resizeImage(item.cover, width), duration }
+  }
+
+  const canvas = new OffscreenCanvas(width, Math.round(width * 9 / 16))
+  const ctx = canvas.getContext('2d')!
+  ctx.fillStyle = '#111'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  drawWaveform(ctx, await getWaveform(item.url), 0, { x: 0, y: canvas.height * 0.2, width: canvas.width, height: canvas.height * 0.6 })
+  return { blob: await toJpeg(canvas), duration }
+}
+
+async function resizeImage(url: string, width: number): Promise<Blob> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`)
+  }
+
+  const bitmap = await createImageBitmap(await response.blob(), { resizeWidth: width, resizeQuality: 'medium' })
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0)
+  bitmap.close()
+  return toJpeg(canvas)
+}
+
+async function createVideoThumbnail(url: string, width: number): Promise<StoredThumbnail> {
+  const { sink, duration } = await openVideo(url, width)
+  const frame = await sink.getCanvas(duration * THUMBNAIL_POSITION)
+  if (!frame) {
+    throw new Error(`No frame to thumbnail in ${url}`)
+  }
+  return { blob: await toJpeg(frame.canvas), duration }
+}
+
+async function openVideo(url: string, width: number): Promise<PreviewSource> {
+  const input = new Input({ source: createSource(url), formats: ALL_FORMATS })
+  const videoTrack = await input.getPrimaryVideoTrack()
+  if (!videoTrack || !(await videoTrack.canDecode())) {
+    throw new Error(`Cannot decode the video in ${url}`)
+  }
+
+  return {
+    sink: new CanvasSink(videoTrack, { width, poolSize: 1 }),
+    duration: await input.computeDuration()
+  }
+}
+
+function toJpeg(canvas: HTMLCanvasElement | OffscreenCanvas): Promise<Blob> {
+  if (canvas instanceof OffscreenCanvas) {
+    return canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 })
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode thumbnail')), 'image/jpeg', 0.8)
+  })
+}
+
+// Lets playback work go first; Safari has no requestIdleCallback
+function waitForIdle(): Promise<void> {
+  return new Promise(resolve => {
+    if ('requestIdleCallback' in window) {
+      requestIdleCallback(() => resolve(), { timeout: 1000 })
+    } else {
+      setTimeout(resolve, 50)
+    }
+  })
+}
@@ -0,0 +1,118 @@
+import { getTransitionOverlap } from './compositor.ts'
+import { DEFAULT_IMAGE_DURATION } from './playlist.ts'
+import type { MediaItem } from './playlist.ts'
+
+export type TimelineSegment = {
+  index: number // Playlist index
+  start: number // Global start time, in seconds
+  duration: number // Full length of the item, after trimming and speed changes
+  ownedDuration: number // Time until the next item takes over (duration minus the overlap with its transition)
+}
+
+export type Timeline = {
+  segments: TimelineSegment[]
+  totalDuration: number
+}
+
+// When and how fast an item plays, resolved against its source's natural duration.
+// Item time runs from 0 to `duration`; media time is the position in the source file.
+export type ItemTiming = {
+  start: number // Media time of the in point
+  end: number // Media time of the out point
+  rate: number
+  hold: number // Seconds the last frame stays up after the out point
+  duration: number // Length of the item: (end - start) / rate + hold
+}
+
+// A video whose natural duration isn't known yet counts up to its explicit out point (or not at all)
+export function resolveTiming(item: MediaItem, naturalDuration: number | undefined): ItemTiming {
+  if (item.type === 'image') {
+    const duration = item.duration || DEFAULT_IMAGE_DURATION
+    return { start: 0, end: duration, rate: 1, hold: 0, duration }
+  }
+
+  // A live stream has no end; it plays until something moves on from it
+  if (item.type === 'stream' && naturalDuration === Infinity) {
+    return { start: 0, end: Infinity, rate: 1, hold: 0, duration: Infinity }
+  }
+
+  const known = naturalDuration !== undefined && Number.isFinite(naturalDuration)
+  const start = known ? Math.min(item.start ?? 0, naturalDuration) : item.start ?? 0
+  const end = known ? Math.min(item.end ?? naturalDuration, naturalDuration) : item.end ?? start
+  const rate = item.playbackRate ?? 1
+  const hold = item.hold ?? 0
+  return { start, end: Math.max(start, end), rate, hold, duration: Math.max(0, end - start) / rate + hold }
+}
+
+export function toMediaTime(timing: ItemTiming, itemTime: number) {
+  return Math.min(timing.start + Math.max(0, itemTime) * timing.rate, timing.end)
+}
+
+export function toItemTime(timing: ItemTiming, mediaTime: number) {
+  return Math.max(0, mediaTime - timing.start) / timing.rate
+}
+
+// Lays the playlist out end to end; each item's transition overlaps the end of the item before it.
+// Takes the natural durations of the sources and applies each item's trim, speed and hold.
+export function buildTimeline(items: MediaItem[], durations: (number | undefined)[]): Timeline {
+  const segments: TimelineSegment[] = []
+  let position = 0
+
+  items.forEach((item, index) => {
+    const { duration } = resolveTiming(item, durations[index])
+    const previous = segments[segments.length - 1]
+    const overlap = previous ? getTransitionOverlap(previous.duration, item.transition) : 0
+
+    if (previous) {
+      previous.ownedDuration = previous.duration - overlap
+    }
+
+    const start = Math.max(0, position - overlap)
+    segments.push({ index, start, duration, ownedDuration: duration })
+    position = start + duration
+  })
+
+  return { segments, totalDuration: position }
+}
+
+// Finds the item playing at a global time and the offset into it
+export function locateTime(timeline: Timeline, time: number): { index: number, offset: number } | null {
+  const { segments, totalDuration } = timeline
+  if (segments.length === 0) return null
+
+  const clamped = Math.max(0, Math.min(time, totalDuration))
+  for (const segment of segments) {
+    if (clamped < segment.start + segment.ownedDuration) {
+      return { index: segment.index, offset: clamped - segment.start }
+    }
+  }
+
+  const last = segments[segments.length - 1]
+  return { index: last.index, offset: last.duration }
+}
+
+// Reads a video's duration from its metadata without downloading the media
+export function probeVideoDuration(url: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video')
+    video.preload = 'metadata'
+    video.muted = true
+
+    const cleanup = () => {
+      video.removeAttribute('src')
+      video.load()
+    }
+
+    video.addEventListener('loadedmetadata', () => {
+      const duration = video.duration
+      cleanup()
+      resolve(duration)
+    }, { once: true })
+    video.addEventListener('error', () => {
+      cleanup()
+      reject(new Error(`Could not read metadata of ${url}`))
+    }, { once: true })
+
+    video.src = url
+  })
+}
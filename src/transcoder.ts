@@ -0,0 +1,115 @@
+import {
+  ALL_FORMATS,
+  BufferTarget,
+  Conversion,
+  Input,
+  Mp4OutputFormat,
+  Output,
+  QUALITY_HIGH,
+  QUALITY_LOW,
+  QUALITY_MEDIUM,
+  QUALITY_VERY_HIGH,
+  QUALITY_VERY_LOW,
+  WebMOutputFormat,
+  getFirstEncodableAudioCodec,
+  getFirstEncodableVideoCodec
+} from 'mediabunny'
+import type { AudioCodec, Quality, VideoCodec } from 'mediabunny'
+import { createSource } from './media-source.ts'
+
+export type TranscodeQuality = 'very-low' | 'low' | 'medium' | 'high' | 'very-high'
+
+export type TranscodeFormat = 'mp4' | 'webm'
+
+export type TranscodeOptions = {
+  format?: TranscodeFormat // Defaults to 'mp4', falling back to WebM where MP4 can't be encoded
+  quality?: TranscodeQuality // Defaults to 'medium'
+  onProgress?: (progress: number) => void // 0-1
+  signal?: AbortSignal
+}
+
+export const TRANSCODE_QUALITIES: Record<TranscodeQuality, Quality> = {
+  'very-low': QUALITY_VERY_LOW,
+  'low': QUALITY_LOW,
+  'medium': QUALITY_MEDIUM,
+  'high': QUALITY_HIGH,
+  'very-high': QUALITY_VERY_HIGH
+}
+
+// Codecs every current browser plays through <video>, in order of preference per container
+const PLAYABLE_VIDEO_CODECS: Record<TranscodeFormat, VideoCodec[]> = {
+  mp4: ['avc', 'vp9', 'av1'],
+  webm: ['vp9', 'vp8', 'av1']
+}
+const PLAYABLE_AUDIO_CODECS: Record<TranscodeFormat, AudioCodec[]> = {
+  mp4: ['aac', 'opus'],
+  webm: ['opus', 'vorbis']
+}
+
+// Re-encodes a video the browser can't play into an MP4 or WebM it can, entirely client-side
+export async function transcodeMedia(url: string, options: TranscodeOptions = {}): Promise<Blob> {
+  const { quality = 'medium', onProgress, signal } = options
+  const input = new Input({ source: createSource(url), formats: ALL_FORMATS })
+  const videoTrack = await input.getPrimaryVideoTrack()
+  if (!videoTrack) {
+    throw new Error(`No video track found in ${url}`)
+  }
+  if (!(await videoTrack.canDecode())) {
+    throw new Error(`This browser cannot decode ${videoTrack.codec?.toUpperCase() ?? 'the'} video, so it cannot convert it either`)
+  }
+
+  const target = await chooseTarget(options.format ?? 'mp4', videoTrack.displayWidth, videoTrack.displayHeight)
+  if (!target) {
+    throw new Error('This browser cannot encode a playable video format')
+  }
+
+  const output = new Output({ format: target.format, target: new BufferTarget() })
+  const bitrate = TRANSCODE_QUALITIES[quality]
+  const conversion = await Conversion.init({
+    input,
+    output,
+    video: { codec: target.videoCodec, bitrate, forceTranscode: true },
+    audio: target.audioCodec ? { codec: target.audioCodec, bitrate } : { discard: true }
+  })
+
+  conversion.discardedTracks.forEach(({ track, reason }) => {
+    console.warn(`Conversion of ${url} drops a ${track.type} track: ${reason}`)
+  })
+  if (!conversion.utilizedTracks.some(track => track.isVideoTrack())) {
+    throw new Error(`The video in ${url} cannot be converted in this browser`)
+  }
+
+  signal?.throwIfAborted()
+  conversion.onProgress = onProgress
+
+  // A cancelled conversion never settles, so cancellation rejects on its own
+  await new Promise<void>((resolve, reject) => {
+    const abort = () => {
+      conversion.cancel()
+      reject(signal!.reason)
+    }
+    signal?.addEventListener('abort', abort, { once: true })
+    conversion.execute()
+      .then(resolve, reject)
+      .finally(() => signal?.removeEventListener('abort', abort))
+  })
+
+  return new Blob([output.target.buffer!], { type: target.format.mimeType })
+}
+
+async function chooseTarget(preferred: TranscodeFormat, width: number, height: number) {
+  const formats: TranscodeFormat[] = preferred === 'mp4' ? ['mp4', 'webm'] : ['webm', 'mp4']
+
+  for (const name of formats) {
+    const videoCodec = await getFirstEncodableVideoCodec(PLAYABLE_VIDEO_CODECS[name], { width, height })
+    if (!videoCodec) continue
+
+    const audioCodec = await getFirstEncodableAudioCodec(PLAYABLE_AUDIO_CODECS[name])
+    if (!audioCodec) {
+      console.warn(`No encodable audio codec for ${name.toUpperCase()}, converting without sound`)
+    }
+    const format = name === 'webm' ? new WebMOutputFormat() : new Mp4OutputFormat()
+    return { format, videoCodec, audioCodec }
+  }
+  return null
+}
@@ -1,8 +1,28 @@
 import { defineConfig } from 'vite'
 
-export default defineConfig({
-  server: {
-    port: 3000,
-    host: true
+export default defineConfig(({ mode }) => {
+  // `vite build --mode lib` bundles the embeddable player instead of the demo page
+  if (mode === 'lib') {
+    return {
+      build: {
+        outDir: 'dist/lib',
+        lib: {
+          entry: 'src/index.ts',
+          formats: ['es'],
+          fileName: 'mediabunny-player',
+          cssFileName: 'style'
+        },
+        rollupOptions: {
+          external: ['howler', 'mediabunny']
+        }
+      }
+    }
   }
-}) 
\ No newline at end of file
+
+  return {
+    server: {
+      port: 3000,
+      host: true
+    }
+  }
+})
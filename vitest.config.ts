@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    environment: 'jsdom',
+    server: {
+      deps: {
+        // Its modules import each other without file extensions, which only a bundler resolves
+        inline: ['mediabunny']
+      }
+    }
+  }
+})